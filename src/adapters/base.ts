@@ -0,0 +1,203 @@
+/**
+ * Base Adapter
+ *
+ * Adapters own the translation between signatures and LM text: they format
+ * instructions, demonstrations and inputs into prompts, and parse completions
+ * back into typed outputs.
+ */
+
+import { FieldDefinition, Signature, describeFieldType } from '../core/signature';
+import { validateFieldValue, coerceFieldValue } from '../core/fields';
+import { TrainingExample } from '../optimize/base';
+import { ChatMessage } from '../lm/base';
+
+/**
+ * Base class for prompt adapters
+ */
+export abstract class Adapter {
+  /**
+   * Adapter name, used in error messages
+   */
+  abstract readonly name: string;
+
+  /**
+   * Format the task instructions and field descriptions for a signature
+   */
+  abstract formatInstructions(signature: Signature): string;
+
+  /**
+   * Format input field values
+   */
+  abstract formatInputs(signature: Signature, inputs: Record<string, any>): string;
+
+  /**
+   * Format output field values, as the LM is expected to produce them
+   */
+  abstract formatOutputs(signature: Signature, outputs: Record<string, any>): string;
+
+  /**
+   * Format the request that tells the LM how to lay out its answer
+   */
+  abstract formatOutputRequest(signature: Signature): string;
+
+  /**
+   * Parse a completion into output field values.
+   * Only fields found in the completion are returned; validation is left to the module.
+   * @throws {Error} if no output field can be extracted
+   */
+  abstract parse(signature: Signature, completion: string): Record<string, any>;
+
+  /**
+   * Parse a completion that is still being streamed into the output fields found so far.
+   * Never throws; adapters without incremental parsing return an empty object.
+   */
+  parsePartial(_signature: Signature, _completion: string): Record<string, any> {
+    return {};
+  }
+
+  /**
+   * Format a complete prompt from instructions, demonstrations and inputs
+   */
+  format(
+    signature: Signature,
+    demos: TrainingExample[],
+    inputs: Record<string, any>
+  ): string {
+    const parts = [this.formatInstructions(signature)];
+
+    for (const demo of demos) {
+      if (demo.output === undefined) {
+        continue;
+      }
+      parts.push(this.formatInputs(signature, demo.input));
+      parts.push(this.formatOutputs(signature, demo.output));
+    }
+
+    parts.push(this.formatInputs(signature, inputs));
+    parts.push(this.formatOutputRequest(signature));
+
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Format chat messages: instructions as the system turn, each demonstration as a
+   * user/assistant pair, and the inputs plus output request as the final user turn
+   */
+  formatMessages(
+    signature: Signature,
+    demos: TrainingExample[],
+    inputs: Record<string, any>
+  ): ChatMessage[] {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: this.formatInstructions(signature) },
+    ];
+
+    for (const demo of demos) {
+      if (demo.output === undefined) {
+        continue;
+      }
+      messages.push({ role: 'user', content: this.formatInputs(signature, demo.input) });
+      messages.push({ role: 'assistant', content: this.formatOutputs(signature, demo.output) });
+    }
+
+    messages.push({
+      role: 'user',
+      content: `${this.formatInputs(signature, inputs)}\n\n${this.formatOutputRequest(signature)}`,
+    });
+
+    return messages;
+  }
+
+  /**
+   * Describe the task, using the signature instructions when present
+   */
+  protected describeTask(signature: Signature): string {
+    if (signature.instructions) {
+      return signature.instructions;
+    }
+    const names = (fields: FieldDefinition[]): string =>
+      fields.map(f => `\`${f.name}\``).join(', ');
+    return `Given the fields ${names(signature.inputs)}, produce the fields ${names(signature.outputs)}.`;
+  }
+
+  /**
+   * Describe fields as a numbered list with types and descriptions
+   */
+  protected describeFields(fields: FieldDefinition[]): string {
+    return fields
+      .map((field, i) => {
+        const description = field.description ? `: ${field.description}` : '';
+        return `${i + 1}. \`${field.name}\` (${describeFieldType(field)})${description}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Render a value as prompt text
+   */
+  protected formatValue(value: any): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  /**
+   * Parse the text of a single field into a value of the field's type
+   */
+  protected parseValue(field: FieldDefinition, text: string): any {
+    if (field.type === 'string') {
+      return text.trim();
+    }
+    try {
+      const value = JSON.parse(text);
+      if (!validateFieldValue(field, value, field.name)) {
+        return value;
+      }
+    } catch {
+      // Not JSON, coerce the raw text below
+    }
+    return coerceFieldValue(field, text);
+  }
+
+  /**
+   * Lenient parsing shared by all adapters: a JSON object, then `field: value` lines,
+   * then the whole completion for a signature with a single string output.
+   */
+  protected parseLoose(signature: Signature, completion: string): Record<string, any> {
+    const jsonMatch = completion.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      try {
+        const parsed = JSON.parse(jsonMatch[0]);
+        const result: Record<string, any> = {};
+        for (const field of signature.outputs) {
+          if (parsed[field.name] !== undefined) {
+            result[field.name] =
+              typeof parsed[field.name] === 'string' && field.type !== 'string'
+                ? this.parseValue(field, parsed[field.name])
+                : parsed[field.name];
+          }
+        }
+        if (Object.keys(result).length > 0) {
+          return result;
+        }
+      } catch {
+        // Not valid JSON, try the other formats
+      }
+    }
+
+    const result: Record<string, any> = {};
+    for (const field of signature.outputs) {
+      const match = completion.match(new RegExp(`^\\s*${field.name}\\s*[:=]\\s*(.+)$`, 'im'));
+      if (match) {
+        result[field.name] = this.parseValue(field, match[1]);
+      }
+    }
+    if (Object.keys(result).length > 0) {
+      return result;
+    }
+
+    if (signature.outputs.length === 1 && signature.outputs[0].type === 'string') {
+      return { [signature.outputs[0].name]: completion.trim() };
+    }
+
+    throw new Error(`${this.name} failed to parse LM response`);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Chat Adapter
+ *
+ * Lays out fields with `[[ ## field ## ]]` markers, in the style of DSPy's ChatAdapter.
+ */
+
+import { Signature } from '../core/signature';
+import { Adapter } from './base';
+
+/**
+ * Adapter that delimits every field with a `[[ ## name ## ]]` marker
+ */
+export class ChatAdapter extends Adapter {
+  readonly name = 'ChatAdapter';
+
+  formatInstructions(signature: Signature): string {
+    const structure = [
+      ...signature.inputs.map(f => `[[ ## ${f.name} ## ]]\n{${f.name}}`),
+      ...signature.outputs.map(f => `[[ ## ${f.name} ## ]]\n{${f.name}}`),
+      '[[ ## completed ## ]]',
+    ].join('\n\n');
+
+    return [
+      `Your input fields are:\n${this.describeFields(signature.inputs)}`,
+      `Your output fields are:\n${this.describeFields(signature.outputs)}`,
+      'All interactions will be structured in the following way, with the appropriate values filled in.',
+      structure,
+      `In adhering to this structure, your objective is: ${this.describeTask(signature)}`,
+    ].join('\n\n');
+  }
+
+  formatInputs(signature: Signature, inputs: Record<string, any>): string {
+    return signature.inputs
+      .filter(f => inputs[f.name] !== undefined)
+      .map(f => `[[ ## ${f.name} ## ]]\n${this.formatValue(inputs[f.name])}`)
+      .join('\n\n');
+  }
+
+  formatOutputs(signature: Signature, outputs: Record<string, any>): string {
+    const sections = signature.outputs
+      .filter(f => outputs[f.name] !== undefined)
+      .map(f => `[[ ## ${f.name} ## ]]\n${this.formatValue(outputs[f.name])}`);
+    return [...sections, '[[ ## completed ## ]]'].join('\n\n');
+  }
+
+  formatOutputRequest(signature: Signature): string {
+    const fields = signature.outputs
+      .map(f => {
+        const hint = f.type === 'string' ? '' : ' (must be formatted as valid JSON)';
+        return `\`[[ ## ${f.name} ## ]]\`${hint}`;
+      })
+      .join(', then ');
+    return `Respond with the corresponding output fields, starting with the field ${fields}, and then ending with the marker for \`[[ ## completed ## ]]\`.`;
+  }
+
+  parse(signature: Signature, completion: string): Record<string, any> {
+    const sections = this.splitSections(completion);
+    const result: Record<string, any> = {};
+
+    for (const field of signature.outputs) {
+      if (sections.has(field.name)) {
+        result[field.name] = this.parseValue(field, sections.get(field.name)!);
+      }
+    }
+
+    if (Object.keys(result).length === 0) {
+      // The LM ignored the markers; fall back to JSON or `field: value` parsing
+      return this.parseLoose(signature, completion);
+    }
+    return result;
+  }
+
+  /**
+   * String fields fill in as text arrives; other fields appear once their section is closed
+   */
+  parsePartial(signature: Signature, completion: string): Record<string, any> {
+    // Drop a marker that has only partly arrived, e.g. a trailing `[[ ## ans`
+    const text = completion.replace(/\[(\[[^\]\n]*\]?)?$/, '');
+    const sections = this.splitSections(text);
+    const open = /\[\[ ## completed ## \]\]/.test(text) ? undefined : [...sections.keys()].pop();
+    const result: Record<string, any> = {};
+
+    for (const field of signature.outputs) {
+      if (!sections.has(field.name)) {
+        continue;
+      }
+      if (field.type === 'string') {
+        result[field.name] = sections.get(field.name)!;
+      } else if (field.name !== open) {
+        result[field.name] = this.parseValue(field, sections.get(field.name)!);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Split a completion into marker sections, keyed by field name
+   */
+  protected splitSections(completion: string): Map<string, string> {
+    const sections = new Map<string, string>();
+    const marker = /\[\[ ## (\w+) ## \]\]/g;
+    const matches = [...completion.matchAll(marker)];
+
+    matches.forEach((match, i) => {
+      const start = match.index! + match[0].length;
+      const end = i + 1 < matches.length ? matches[i + 1].index! : completion.length;
+      if (match[1] !== 'completed') {
+        sections.set(match[1], completion.slice(start, end).trim());
+      }
+    });
+
+    return sections;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Adapters
+ *
+ * Prompt formatting and output parsing strategies
+ */
+
+export * from './base';
+export * from './chat';
+export * from './json';
+export * from './xml';
+export * from './settings';
@@ -0,0 +1,129 @@
+/**
+ * JSON Adapter
+ *
+ * Asks the LM for a single JSON object holding every output field.
+ */
+
+import { Signature } from '../core/signature';
+import { exampleFieldValue } from '../core/fields';
+import { Adapter } from './base';
+
+/**
+ * Adapter that exchanges inputs and outputs as JSON objects
+ */
+export class JSONAdapter extends Adapter {
+  readonly name = 'JSONAdapter';
+
+  formatInstructions(signature: Signature): string {
+    return [
+      `Your input fields are:\n${this.describeFields(signature.inputs)}`,
+      `Your output fields are:\n${this.describeFields(signature.outputs)}`,
+      `Your objective is: ${this.describeTask(signature)}`,
+    ].join('\n\n');
+  }
+
+  formatInputs(signature: Signature, inputs: Record<string, any>): string {
+    return `Input:\n${JSON.stringify(this.pick(signature.inputs.map(f => f.name), inputs), null, 2)}`;
+  }
+
+  formatOutputs(signature: Signature, outputs: Record<string, any>): string {
+    return JSON.stringify(this.pick(signature.outputs.map(f => f.name), outputs), null, 2);
+  }
+
+  formatOutputRequest(signature: Signature): string {
+    const example = signature.outputs
+      .map(f => `  "${f.name}": ${exampleFieldValue(f)}`)
+      .join(',\n');
+    return `Respond with a single JSON object in this format:\n{\n${example}\n}`;
+  }
+
+  parse(signature: Signature, completion: string): Record<string, any> {
+    return this.parseLoose(signature, completion);
+  }
+
+  /**
+   * Close the strings, arrays and objects left open in a truncated JSON object and
+   * return the fields parsed so far
+   */
+  parsePartial(signature: Signature, completion: string): Record<string, any> {
+    const start = completion.indexOf('{');
+    if (start === -1) {
+      return {};
+    }
+
+    const parsed = this.parseIncompleteJSON(completion.slice(start));
+    if (!parsed || typeof parsed !== 'object') {
+      return {};
+    }
+
+    const result: Record<string, any> = {};
+    for (const field of signature.outputs) {
+      if (parsed[field.name] !== undefined) {
+        result[field.name] = parsed[field.name];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Parse a possibly truncated JSON document, returning undefined when it cannot be repaired
+   */
+  private parseIncompleteJSON(text: string): any {
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const char of text) {
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        closers.push('}');
+      } else if (char === '[') {
+        closers.push(']');
+      } else if (char === '}' || char === ']') {
+        closers.pop();
+      }
+    }
+
+    let repaired = text;
+    if (escaped) {
+      repaired = repaired.slice(0, -1);
+    }
+    if (inString) {
+      repaired += '"';
+    }
+    // Drop a key still waiting for its value, then any dangling comma
+    if (closers[closers.length - 1] === '}') {
+      repaired = repaired.replace(/([{,])\s*"[^"]*"(\s*:\s*)?$/, '$1');
+    }
+    repaired = repaired.replace(/,\s*$/, '');
+    repaired += closers.reverse().join('');
+
+    try {
+      return JSON.parse(repaired);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Copy the given keys that are defined on the source object
+   */
+  private pick(keys: string[], source: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const key of keys) {
+      if (source[key] !== undefined) {
+        result[key] = source[key];
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Global adapter configuration
+ */
+
+import { Adapter } from './base';
+import { ChatAdapter } from './chat';
+import { configure, getSettings } from '../core/settings';
+
+// Default adapter, created lazily
+let defaultAdapter: Adapter | null = null;
+
+/**
+ * Configure the adapter used by modules that do not set their own
+ */
+export function configureAdapter(adapter: Adapter): void {
+  configure({ adapter });
+}
+
+/**
+ * Get the adapter in effect, defaulting to ChatAdapter
+ */
+export function getAdapter(): Adapter {
+  const { adapter } = getSettings();
+  if (adapter) {
+    return adapter;
+  }
+  if (!defaultAdapter) {
+    defaultAdapter = new ChatAdapter();
+  }
+  return defaultAdapter;
+}
@@ -0,0 +1,88 @@
+/**
+ * XML Adapter
+ *
+ * Wraps every field in `<name>...</name>` tags.
+ */
+
+import { Signature } from '../core/signature';
+import { Adapter } from './base';
+
+/**
+ * Adapter that delimits fields with XML tags
+ */
+export class XMLAdapter extends Adapter {
+  readonly name = 'XMLAdapter';
+
+  formatInstructions(signature: Signature): string {
+    return [
+      `Your input fields are:\n${this.describeFields(signature.inputs)}`,
+      `Your output fields are:\n${this.describeFields(signature.outputs)}`,
+      `Your objective is: ${this.describeTask(signature)}`,
+    ].join('\n\n');
+  }
+
+  formatInputs(signature: Signature, inputs: Record<string, any>): string {
+    return signature.inputs
+      .filter(f => inputs[f.name] !== undefined)
+      .map(f => this.tag(f.name, inputs[f.name]))
+      .join('\n');
+  }
+
+  formatOutputs(signature: Signature, outputs: Record<string, any>): string {
+    return signature.outputs
+      .filter(f => outputs[f.name] !== undefined)
+      .map(f => this.tag(f.name, outputs[f.name]))
+      .join('\n');
+  }
+
+  formatOutputRequest(signature: Signature): string {
+    const tags = signature.outputs.map(f => `<${f.name}>...</${f.name}>`).join('\n');
+    return `Respond with each output field wrapped in its XML tag:\n${tags}`;
+  }
+
+  parse(signature: Signature, completion: string): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const field of signature.outputs) {
+      const match = completion.match(new RegExp(`<${field.name}>([\\s\\S]*?)</${field.name}>`));
+      if (match) {
+        result[field.name] = this.parseValue(field, match[1]);
+      }
+    }
+
+    if (Object.keys(result).length === 0) {
+      return this.parseLoose(signature, completion);
+    }
+    return result;
+  }
+
+  /**
+   * String fields fill in as text arrives; other fields appear once their tag is closed
+   */
+  parsePartial(signature: Signature, completion: string): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const field of signature.outputs) {
+      const closed = completion.match(new RegExp(`<${field.name}>([\\s\\S]*?)</${field.name}>`));
+      if (closed) {
+        result[field.name] = this.parseValue(field, closed[1]);
+        continue;
+      }
+
+      const open = completion.match(new RegExp(`<${field.name}>([\\s\\S]*)$`));
+      if (open && field.type === 'string') {
+        // Drop a closing tag that has only partly arrived
+        result[field.name] = open[1].replace(/<[^>]*$/, '').trim();
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Wrap a value in an XML tag
+   */
+  private tag(name: string, value: any): string {
+    return `<${name}>${this.formatValue(value)}</${name}>`;
+  }
+}
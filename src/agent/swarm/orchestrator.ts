@@ -13,6 +13,7 @@ import {
   AgentExecution,
   SwarmConfig,
 } from './types';
+import { withLM } from '../../core/settings';
 
 /**
  * Default swarm configuration
@@ -197,8 +198,9 @@ export class SwarmOrchestrator {
       // Merge agent context with task context
       const mergedContext = new Map([...context, ...agent.context]);
 
-      // Execute routine
-      const result = await agent.routine.execute(input, mergedContext);
+      // Execute routine, scoped to the agent's own LM when it has one
+      const execute = () => agent.routine.execute(input, mergedContext);
+      const result = await (agent.lm ? withLM(agent.lm, execute) : execute());
 
       // Update agent context
       agent.context = result.context;
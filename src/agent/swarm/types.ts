@@ -4,6 +4,8 @@
  * Type definitions for the Swarm multi-agent orchestration system
  */
 
+import { LMDriver } from '../../lm/base';
+
 /**
  * Agent definition
  */
@@ -38,6 +40,11 @@ export interface Agent {
    */
   context: Map<string, any>;
 
+  /**
+   * Language model for this agent's routine (default: the configured LM)
+   */
+  lm?: LMDriver;
+
   /**
    * Metadata
    */
@@ -0,0 +1,197 @@
+/**
+ * Example and Prediction
+ *
+ * Immutable records of field values. An `Example` knows which of its keys are
+ * inputs, so the remaining keys can serve as labels for metrics and demos.
+ * A `Prediction` holds a module's outputs along with every completion it chose from.
+ */
+
+import { TrainingExample } from '../optimize/base';
+import { deepEqual } from '../utils/deep-equal';
+
+/**
+ * A data point: field values plus the set of keys that are inputs.
+ *
+ * @example
+ * const example = new Example({ question: 'Capital of France?', answer: 'Paris' }).withInputs('question');
+ * example.inputs(); // { question: 'Capital of France?' }
+ * example.labels(); // { answer: 'Paris' }
+ */
+export class Example<T extends Record<string, any> = Record<string, any>> {
+  private readonly data: Readonly<T>;
+  private readonly inputKeys?: ReadonlyArray<string>;
+
+  /**
+   * @param data Field values; they are copied, so later changes to the object do not affect the example
+   * @param inputKeys Keys that are inputs; without them `inputs()` and `labels()` throw
+   */
+  constructor(data: T, inputKeys?: Iterable<string>) {
+    this.data = Object.freeze({ ...data });
+    this.inputKeys = inputKeys ? Object.freeze([...new Set(inputKeys)]) : undefined;
+  }
+
+  /**
+   * Create an example from a training example, marking its `input` keys as inputs
+   */
+  static fromTrainingExample<TInput extends Record<string, any>, TOutput extends Record<string, any>>(
+    example: TrainingExample<TInput, TOutput>
+  ): Example<TInput & Partial<TOutput>> {
+    const data = { ...example.input, ...example.output } as TInput & Partial<TOutput>;
+    return new Example(data, Object.keys(example.input));
+  }
+
+  /**
+   * Get a field value
+   */
+  get<K extends keyof T>(key: K): T[K] {
+    return this.data[key];
+  }
+
+  /**
+   * Check whether a field is present
+   */
+  has(key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.data, key);
+  }
+
+  /**
+   * All field names
+   */
+  keys(): string[] {
+    return Object.keys(this.data);
+  }
+
+  /**
+   * Copy of all field values
+   */
+  toObject(): T {
+    return { ...this.data };
+  }
+
+  /**
+   * Copy of this example with the given keys marked as inputs
+   */
+  withInputs(...keys: Array<keyof T & string>): Example<T> {
+    return new Example(this.data, keys);
+  }
+
+  /**
+   * Copy of this example with some field values replaced or added, keeping the input keys
+   */
+  with<U extends Record<string, any>>(values: U): Example<Omit<T, keyof U> & U> {
+    return new Example({ ...this.data, ...values } as Omit<T, keyof U> & U, this.inputKeys);
+  }
+
+  /**
+   * Values of the input fields
+   * @throws {Error} if the input keys have not been marked
+   */
+  inputs(): Partial<T> {
+    const inputKeys = this.requireInputKeys();
+    return this.pick(key => inputKeys.includes(key));
+  }
+
+  /**
+   * Values of the non-input fields
+   * @throws {Error} if the input keys have not been marked
+   */
+  labels(): Partial<T> {
+    const inputKeys = this.requireInputKeys();
+    return this.pick(key => !inputKeys.includes(key));
+  }
+
+  /**
+   * Check whether another example has the same input keys and deeply equal values
+   */
+  equals(other: Example<any>): boolean {
+    const ownKeys = [...(this.inputKeys ?? [])].sort();
+    const otherKeys = [...(other.inputKeys ?? [])].sort();
+    return (this.inputKeys === undefined) === (other.inputKeys === undefined)
+      && deepEqual(ownKeys, otherKeys)
+      && deepEqual(this.data, other.data);
+  }
+
+  /**
+   * Convert to the `{ input, output }` form; `output` is omitted when there are no labels
+   * @throws {Error} if the input keys have not been marked
+   */
+  toTrainingExample(): TrainingExample<Partial<T>, Partial<T>> {
+    const labels = this.labels();
+    return Object.keys(labels).length > 0
+      ? { input: this.inputs(), output: labels }
+      : { input: this.inputs() };
+  }
+
+  toJSON(): T {
+    return this.toObject();
+  }
+
+  private requireInputKeys(): ReadonlyArray<string> {
+    if (!this.inputKeys) {
+      throw new Error('Inputs have not been set for this example. Call withInputs() first.');
+    }
+    return this.inputKeys;
+  }
+
+  private pick(predicate: (key: string) => boolean): Partial<T> {
+    const picked: Record<string, any> = {};
+    for (const key of Object.keys(this.data)) {
+      if (predicate(key)) {
+        picked[key] = this.data[key];
+      }
+    }
+    return picked as Partial<T>;
+  }
+}
+
+/**
+ * Outputs of a module run, with all completions the outputs were chosen from.
+ * Every field of a prediction is a label; it has no inputs.
+ */
+export class Prediction<T extends Record<string, any> = Record<string, any>> extends Example<T> {
+  /**
+   * Candidate outputs, the chosen one first
+   */
+  readonly completions: ReadonlyArray<T>;
+
+  /**
+   * @param outputs Chosen outputs
+   * @param completions All candidate outputs (default: just `outputs`)
+   */
+  constructor(outputs: T, completions?: T[]) {
+    super(outputs, []);
+    this.completions = Object.freeze((completions ?? [outputs]).map(completion => ({ ...completion })));
+  }
+
+  /**
+   * Create a prediction that picks the first of several completions
+   * @throws {Error} if there are no completions
+   */
+  static fromCompletions<T extends Record<string, any>>(completions: T[]): Prediction<T> {
+    if (completions.length === 0) {
+      throw new Error('Cannot create a prediction without completions');
+    }
+    return new Prediction(completions[0], completions);
+  }
+}
+
+/**
+ * Accept either form of training data and return it as a training example with plain labels
+ */
+export function toTrainingExample<TInput = any, TOutput = any>(
+  example: TrainingExample<TInput, TOutput | Prediction> | Example<any>
+): TrainingExample<TInput, TOutput> {
+  if (example instanceof Example) {
+    return example.toTrainingExample() as TrainingExample<TInput, TOutput>;
+  }
+  return example.output instanceof Prediction
+    ? { ...example, output: toOutputs<TOutput>(example.output) }
+    : (example as TrainingExample<TInput, TOutput>);
+}
+
+/**
+ * The field values of outputs given as a plain object or as a `Prediction`
+ */
+export function toOutputs<T>(output: T | Prediction): T {
+  return output instanceof Prediction ? (output.toObject() as T) : output;
+}
@@ -1,17 +1,104 @@
-import { Module } from './module';
-import { Signature } from './signature';
+import { Module, ModuleStrategy } from './module';
+import { Signature, resolveSignature } from './signature';
+import { TypedSignature } from './typed-signature';
 import { PredictModule } from '../modules/predict';
+import { ChainOfThought } from '../modules/chain-of-thought';
+import { ReAct, Tool } from '../modules/react';
+import { Adapter } from '../adapters/base';
+import { LMDriver, GenerationOptions } from '../lm/base';
 
 /**
  * Options for creating a module
  */
 export interface ModuleOptions<TInput extends Record<string, any>, TOutput extends Record<string, any>> {
   name: string;
+  /**
+   * Signature object, its string form (e.g. `"question: string -> answer: string"`)
+   * or a typed signature from `defineSignature`, which also infers TInput and TOutput
+   */
+  signature: Signature | string | TypedSignature<TInput, TOutput>;
+  promptTemplate?: (input: TInput) => string;
+  /**
+   * Built-in strategy or the name of a strategy added with `registerStrategy` (default: Predict)
+   */
+  strategy?: ModuleStrategy;
+  adapter?: Adapter;
+  lm?: LMDriver;
+  generationOptions?: GenerationOptions;
+  /**
+   * Tools available to the ReAct strategy
+   */
+  tools?: Tool[];
+  /**
+   * Maximum reasoning iterations for the ReAct strategy
+   */
+  maxIterations?: number;
+  /**
+   * Extra options for registered strategies
+   */
+  config?: Record<string, any>;
+}
+
+/**
+ * Module options as passed to strategy factories, with the signature already resolved
+ */
+export type ResolvedModuleOptions = Omit<ModuleOptions<any, any>, 'signature'> & {
   signature: Signature;
-  promptTemplate: (input: TInput) => string;
-  strategy?: 'Predict' | 'ChainOfThought' | 'ReAct';
+};
+
+/**
+ * Creates a module for a strategy
+ */
+export type StrategyFactory = (options: ResolvedModuleOptions) => Module<any, any>;
+
+// Registered strategies, keyed by name
+const strategies = new Map<string, StrategyFactory>();
+
+/**
+ * Register a strategy so `defineModule` can create it by name.
+ * Registering an existing name replaces its factory.
+ *
+ * @example
+ * registerStrategy('Retrieve', options => new RetrieveModule(options));
+ */
+export function registerStrategy(name: string, factory: StrategyFactory): void {
+  strategies.set(name, factory);
+}
+
+/**
+ * Remove a registered strategy
+ */
+export function unregisterStrategy(name: string): void {
+  strategies.delete(name);
+}
+
+/**
+ * Names of all registered strategies
+ */
+export function listStrategies(): string[] {
+  return [...strategies.keys()];
 }
 
+registerStrategy('Predict', options => new PredictModule(options));
+
+registerStrategy('ChainOfThought', options => new ChainOfThought({
+  name: options.name,
+  signature: options.signature,
+  adapter: options.adapter,
+  lm: options.lm,
+  generationOptions: options.generationOptions,
+}));
+
+registerStrategy('ReAct', options => new ReAct({
+  name: options.name,
+  signature: options.signature,
+  tools: options.tools ?? [],
+  maxIterations: options.maxIterations,
+  adapter: options.adapter,
+  lm: options.lm,
+  generationOptions: options.generationOptions,
+}));
+
 /**
  * Factory function to create modules based on strategy
  */
@@ -19,17 +106,12 @@ export function defineModule<TInput extends Record<string, any>, TOutput extends
   options: ModuleOptions<TInput, TOutput>
 ): Module<TInput, TOutput> {
   const strategy = options.strategy || 'Predict';
-
-  switch (strategy) {
-    case 'Predict':
-      return new PredictModule<TInput, TOutput>(options);
-    
-    case 'ChainOfThought':
-    case 'ReAct':
-      // These will be implemented in future phases
-      throw new Error(`Strategy ${strategy} not yet implemented`);
-    
-    default:
-      throw new Error(`Unknown strategy: ${strategy}`);
+  const factory = strategies.get(strategy);
+  if (!factory) {
+    throw new Error(`Unknown strategy: ${strategy}`);
   }
+
+  // Copy the signature so strategies that add output fields do not change the caller's
+  const signature = { ...resolveSignature(options.signature) };
+  return factory({ ...options, signature }) as Module<TInput, TOutput>;
 }
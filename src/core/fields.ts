@@ -0,0 +1,204 @@
+/**
+ * Value-level helpers for signature fields: validation, prompt examples,
+ * defaults and coercion of raw LM text into typed values.
+ */
+
+import { FieldSchema, describeFieldType } from './signature';
+
+/**
+ * A single problem found while validating a field value
+ */
+export interface FieldValidationIssue {
+  /**
+   * Location of the offending value, e.g. `tags[2]` or `author.name`
+   */
+  path: string;
+
+  /**
+   * Human-readable reason, e.g. `must be of type string`
+   */
+  message: string;
+
+  /**
+   * Expected type in signature syntax
+   */
+  expected: string;
+
+  /**
+   * Type (or value, for enum and literal mismatches) that was received
+   */
+  received: string;
+}
+
+/**
+ * Validate a value against a field schema.
+ * Returns the first issue found, or null when the value is valid.
+ */
+export function validateFieldValue(
+  schema: FieldSchema,
+  value: any,
+  path: string
+): FieldValidationIssue | null {
+  const issue = (message: string, received = typeOfValue(value)): FieldValidationIssue => ({
+    path,
+    message,
+    expected: describeFieldType(schema),
+    received,
+  });
+
+  switch (schema.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === schema.type ? null : issue(`must be of type ${schema.type}`);
+
+    case 'integer':
+      return Number.isInteger(value) ? null : issue('must be of type integer');
+
+    case 'date': {
+      const time =
+        value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : NaN;
+      return isNaN(time) ? issue('must be a valid date') : null;
+    }
+
+    case 'enum':
+      return schema.values!.includes(value)
+        ? null
+        : issue(
+            `must be one of ${schema.values!.map(v => JSON.stringify(v)).join(', ')}`,
+            JSON.stringify(value)
+          );
+
+    case 'literal':
+      return value === schema.value
+        ? null
+        : issue(`must be equal to ${JSON.stringify(schema.value)}`, JSON.stringify(value));
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        return issue('must be of type array');
+      }
+      for (let i = 0; i < value.length; i++) {
+        const itemIssue = validateFieldValue(schema.items!, value[i], `${path}[${i}]`);
+        if (itemIssue) {
+          return itemIssue;
+        }
+      }
+      return null;
+
+    case 'object':
+      if (typeof value !== 'object' || value === null) {
+        return issue('must be of type object');
+      }
+      for (const property of schema.properties || []) {
+        const propertyPath = `${path}.${property.name}`;
+        const propertyValue = value[property.name];
+        if (propertyValue === undefined) {
+          if (property.required) {
+            return {
+              path: propertyPath,
+              message: 'is required',
+              expected: describeFieldType(property),
+              received: 'undefined',
+            };
+          }
+          continue;
+        }
+        const propertyIssue = validateFieldValue(property, propertyValue, propertyPath);
+        if (propertyIssue) {
+          return propertyIssue;
+        }
+      }
+      return null;
+  }
+}
+
+/**
+ * Build an example value (as JSON text) used to show the expected output format in prompts
+ */
+export function exampleFieldValue(schema: FieldSchema): string {
+  switch (schema.type) {
+    case 'string':
+      return '"your answer here"';
+    case 'number':
+    case 'integer':
+      return '0';
+    case 'boolean':
+      return 'true';
+    case 'date':
+      return '"YYYY-MM-DD"';
+    case 'enum':
+      return JSON.stringify(schema.values![0]);
+    case 'literal':
+      return JSON.stringify(schema.value);
+    case 'array':
+      return `[${exampleFieldValue(schema.items!)}]`;
+    case 'object':
+      if (!schema.properties || schema.properties.length === 0) {
+        return '{}';
+      }
+      return `{${schema.properties
+        .map(p => `"${p.name}": ${exampleFieldValue(p)}`)
+        .join(', ')}}`;
+    default:
+      return 'null';
+  }
+}
+
+/**
+ * Convert raw text extracted from an LM response into a value of the field's type
+ */
+export function coerceFieldValue(schema: FieldSchema, raw: string): any {
+  const text = raw.trim().replace(/^["']|["']$/g, '');
+
+  switch (schema.type) {
+    case 'number':
+      return parseFloat(text) || 0;
+    case 'integer':
+      return parseInt(text, 10) || 0;
+    case 'boolean':
+      return text.toLowerCase() === 'true';
+    case 'enum': {
+      const match = schema.values!.find(v => String(v).toLowerCase() === text.toLowerCase());
+      return match !== undefined ? match : text;
+    }
+    case 'literal':
+      return String(schema.value).toLowerCase() === text.toLowerCase() ? schema.value : text;
+    case 'array': {
+      const parsed = tryParseJSON(raw.trim());
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+      return text === ''
+        ? []
+        : text.split(',').map(item => coerceFieldValue(schema.items!, item));
+    }
+    case 'object': {
+      const parsed = tryParseJSON(raw.trim());
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    }
+    default:
+      return text;
+  }
+}
+
+/**
+ * Name the type of a value the way validation messages report it
+ */
+function typeOfValue(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Parse JSON, returning undefined instead of throwing
+ */
+function tryParseJSON(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
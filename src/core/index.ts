@@ -1,7 +1,10 @@
 export * from './signature';
+export * from './fields';
+export * from './typed-signature';
 export * from './module';
+export * from './program';
 export * from './pipeline';
 export * from './factory';
-
-// Re-export LM configuration
-export { configureLM, getLM } from '../lm/base';
+export * from './settings';
+export * from './state';
+export * from './example';
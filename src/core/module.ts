@@ -1,4 +1,52 @@
-import { Signature, FieldDefinition } from './signature';
+import { Signature, FieldDefinition, isValidFieldDefinition } from './signature';
+import { validateFieldValue } from './fields';
+import { isTypedSignature, assertMatchesSchema } from './typed-signature';
+import { Adapter } from '../adapters/base';
+import { getAdapter } from '../adapters/settings';
+import { LMDriver, ChatMessage, GenerationOptions, runChatStream } from '../lm/base';
+import { getLM, getSettings } from './settings';
+import {
+  STATE_VERSION,
+  FieldState,
+  PredictorState,
+  ProgramState,
+  SaveStateOptions,
+  validateProgramState,
+} from './state';
+import { TrainingExample } from '../optimize/base';
+
+/**
+ * Module strategy: a built-in one or the name of a strategy added with `registerStrategy`
+ */
+export type ModuleStrategy = 'Predict' | 'ChainOfThought' | 'ReAct' | (string & {});
+
+/**
+ * Per-module settings: the LM, the adapter and generation options such as temperature
+ */
+export interface ModuleSettings extends GenerationOptions {
+  lm?: LMDriver;
+  adapter?: Adapter;
+}
+
+/**
+ * Incremental update emitted while a module streams its output
+ */
+export interface StreamUpdate<TOutput> {
+  /**
+   * Text received since the previous update
+   */
+  delta: string;
+
+  /**
+   * Output fields parsed so far; string fields fill in as text arrives
+   */
+  partial: Partial<TOutput>;
+
+  /**
+   * True for the final update, whose `partial` is the complete, validated output
+   */
+  done: boolean;
+}
 
 /**
  * Base class for DSPy.ts modules.
@@ -8,18 +56,187 @@ export abstract class Module<TInput extends Record<string, any>, TOutput extends
   public readonly name: string;
   public readonly signature: Signature;
   public readonly promptTemplate: (input: TInput) => string;
-  public readonly strategy: 'Predict' | 'ChainOfThought' | 'ReAct';
+  public readonly strategy: ModuleStrategy;
+  public adapter?: Adapter;
+  public lm?: LMDriver;
+  public generationOptions: GenerationOptions;
+
+  /**
+   * Demonstrations learned by optimizers. Modules that build their own prompts in `run`
+   * must render them, or optimized copies behave like the original.
+   */
+  public demos: TrainingExample[] = [];
 
   constructor(options: {
     name: string;
     signature: Signature;
     promptTemplate?: (input: TInput) => string;
-    strategy: 'Predict' | 'ChainOfThought' | 'ReAct';
+    strategy: ModuleStrategy;
+    adapter?: Adapter;
+    lm?: LMDriver;
+    generationOptions?: GenerationOptions;
   }) {
     this.name = options.name;
     this.signature = options.signature;
     this.promptTemplate = options.promptTemplate || ((input: TInput) => JSON.stringify(input));
     this.strategy = options.strategy;
+    this.adapter = options.adapter;
+    this.lm = options.lm;
+    this.generationOptions = { ...options.generationOptions };
+  }
+
+  /**
+   * Bind an LM, an adapter or generation options to this module.
+   * Generation options are merged into the current ones.
+   *
+   * @example
+   * router.set({ lm: cheapLM, temperature: 0 });
+   */
+  public set(settings: ModuleSettings): this {
+    const { lm, adapter, ...options } = settings;
+    if (lm) {
+      this.lm = lm;
+    }
+    if (adapter) {
+      this.adapter = adapter;
+    }
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined) {
+        (this.generationOptions as Record<string, unknown>)[key] = value;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Create a deep copy of this module. Signatures, options and submodules are copied;
+   * services such as the LM and adapter are shared with the original.
+   */
+  public clone(): this {
+    const copy = Object.create(Object.getPrototypeOf(this));
+    for (const [key, value] of Object.entries(this)) {
+      copy[key] = key === 'lm' || key === 'adapter' ? value : cloneValue(value);
+    }
+    return copy;
+  }
+
+  /**
+   * Whether prompts include the signature instructions and field descriptions.
+   * Optimizers that tune instructions leave predictors that return false unchanged.
+   */
+  public rendersInstructions(): boolean {
+    return true;
+  }
+
+  /**
+   * Clear state learned by optimizers
+   */
+  public reset(): void {
+    this.demos = [];
+  }
+
+  /**
+   * Predictors whose state is saved and loaded; a single module is its own predictor
+   */
+  public namedPredictors(): Array<[string, Module<any, any>]> {
+    return [['self', this]];
+  }
+
+  /**
+   * Snapshot the learned state of every predictor as plain JSON data
+   */
+  public saveState(options: SaveStateOptions = {}): ProgramState {
+    const predictors: Record<string, PredictorState> = {};
+    for (const [name, predictor] of this.namedPredictors()) {
+      predictors[name] = predictor.dumpPredictorState(options);
+    }
+    return { version: STATE_VERSION, predictors };
+  }
+
+  /**
+   * Restore state saved with `saveState`. The state must describe the same predictors,
+   * with the same input and output field names, as this module.
+   * @throws {Error} if the state is malformed or does not match this module
+   */
+  public loadState(state: ProgramState): this {
+    validateProgramState(state);
+
+    const predictors = this.namedPredictors();
+    const expected = predictors.map(([name]) => name).sort();
+    const received = Object.keys(state.predictors).sort();
+    if (expected.join(',') !== received.join(',')) {
+      throw new Error(
+        `Cannot load state: expected predictors [${expected.join(', ')}], got [${received.join(', ')}]`
+      );
+    }
+
+    for (const [name, predictor] of predictors) {
+      predictor.loadPredictorState(name, state.predictors[name]);
+    }
+    return this;
+  }
+
+  /**
+   * Snapshot this predictor's own state
+   */
+  protected dumpPredictorState(options: SaveStateOptions): PredictorState {
+    const fields = (list: FieldDefinition[]): FieldState[] =>
+      list.map(field => (options.fieldMeta ? { ...field } : { name: field.name }));
+    const model = (this.lm as { model?: unknown } | undefined)?.model;
+
+    return JSON.parse(JSON.stringify({
+      signature: {
+        instructions: this.signature.instructions,
+        inputs: fields(this.signature.inputs),
+        outputs: fields(this.signature.outputs),
+      },
+      demos: this.demos,
+      lm: {
+        model: typeof model === 'string' ? model : undefined,
+        options: this.generationOptions,
+      },
+    }));
+  }
+
+  /**
+   * Apply a predictor state after checking that its fields match this predictor's
+   */
+  protected loadPredictorState(name: string, state: PredictorState): void {
+    const check = (kind: string, own: FieldDefinition[], saved: FieldState[]): void => {
+      const ownNames = own.map(f => f.name).join(', ');
+      const savedNames = saved.map(f => f.name).join(', ');
+      if (ownNames !== savedNames) {
+        throw new Error(
+          `Cannot load state for "${name}": expected ${kind} fields [${ownNames}], got [${savedNames}]`
+        );
+      }
+    };
+    check('input', this.signature.inputs, state.signature.inputs);
+    check('output', this.signature.outputs, state.signature.outputs);
+
+    // Saved field metadata (types, descriptions) overrides the current definitions
+    const merge = (own: FieldDefinition[], saved: FieldState[]): FieldDefinition[] =>
+      own.map((field, i) => {
+        const merged = { ...field, ...saved[i] };
+        if (!isValidFieldDefinition(merged)) {
+          throw new Error(`Cannot load state for "${name}": invalid field ${JSON.stringify(merged)}`);
+        }
+        return merged;
+      });
+    const signature: Signature = {
+      ...this.signature,
+      inputs: merge(this.signature.inputs, state.signature.inputs),
+      outputs: merge(this.signature.outputs, state.signature.outputs),
+    };
+    if (state.signature.instructions !== undefined) {
+      signature.instructions = state.signature.instructions;
+    }
+
+    // Replace the signature instead of mutating it, since other modules may share it
+    (this as { signature: Signature }).signature = signature;
+
+    this.demos = state.demos.map(demo => ({ ...demo }));
+    this.generationOptions = { ...state.lm.options };
   }
 
   /**
@@ -29,10 +246,73 @@ export abstract class Module<TInput extends Record<string, any>, TOutput extends
    */
   public abstract run(input: TInput): Promise<TOutput>;
 
+  /**
+   * Stream a response for the given messages, yielding partial outputs parsed by the
+   * module's adapter. The final update carries the validated output, which is also returned.
+   */
+  protected async *streamOutput(
+    lm: LMDriver,
+    messages: ChatMessage[],
+    options?: GenerationOptions
+  ): AsyncGenerator<StreamUpdate<TOutput>, TOutput> {
+    const adapter = this.resolveAdapter();
+    let completion = '';
+
+    for await (const delta of runChatStream(lm, messages, options)) {
+      completion += delta;
+      const partial = adapter.parsePartial(this.signature, completion) as Partial<TOutput>;
+      yield { delta, partial, done: false };
+    }
+
+    const output = adapter.parse(this.signature, completion) as TOutput;
+    this.validateOutput(output);
+
+    yield { delta: '', partial: output, done: true };
+    return output;
+  }
+
+  /**
+   * Record a completed call in the active trace, if any, with the messages sent to the LM
+   */
+  protected recordTrace(input: TInput, output: TOutput, messages?: ChatMessage[]): void {
+    getSettings().trace?.push({
+      module: this,
+      input: { ...input },
+      output: { ...output },
+      ...(messages ? { messages: messages.map(message => ({ ...message })) } : {})
+    });
+  }
+
+  /**
+   * Get the LM for this module, falling back to the configured LM
+   */
+  protected resolveLM(): LMDriver {
+    return this.lm ?? getLM();
+  }
+
+  /**
+   * Get the generation options for a call: the module's own options override the given defaults
+   */
+  protected resolveGenerationOptions(defaults: GenerationOptions = {}): GenerationOptions {
+    return { ...defaults, ...this.generationOptions };
+  }
+
+  /**
+   * Get the adapter for this module, falling back to the global adapter
+   */
+  protected resolveAdapter(): Adapter {
+    return this.adapter ?? getAdapter();
+  }
+
   /**
    * Validates that the input matches the module's input signature
    */
   protected validateInput(input: TInput): void {
+    if (isTypedSignature(this.signature)) {
+      assertMatchesSchema(this.signature.inputSchema, input, 'input');
+      return;
+    }
+
     for (const field of this.signature.inputs) {
       const value = input[field.name];
 
@@ -46,28 +326,10 @@ export abstract class Module<TInput extends Record<string, any>, TOutput extends
         continue;
       }
 
-      // Validate type
-      switch (field.type) {
-        case 'string':
-          if (typeof value !== 'string') {
-            throw new Error(`Invalid input: ${field.name} must be of type string`);
-          }
-          break;
-        case 'number':
-          if (typeof value !== 'number') {
-            throw new Error(`Invalid input: ${field.name} must be of type number`);
-          }
-          break;
-        case 'boolean':
-          if (typeof value !== 'boolean') {
-            throw new Error(`Invalid input: ${field.name} must be of type boolean`);
-          }
-          break;
-        case 'object':
-          if (typeof value !== 'object' || value === null) {
-            throw new Error(`Invalid input: ${field.name} must be of type object`);
-          }
-          break;
+      // Validate type, including nested array items and object properties
+      const issue = validateFieldValue(field, value, field.name);
+      if (issue) {
+        throw new Error(`Invalid input: ${issue.path} ${issue.message}`);
       }
     }
   }
@@ -76,6 +338,11 @@ export abstract class Module<TInput extends Record<string, any>, TOutput extends
    * Validates that the output matches the module's output signature
    */
   protected validateOutput(output: TOutput): void {
+    if (isTypedSignature(this.signature)) {
+      assertMatchesSchema(this.signature.outputSchema, output, 'output');
+      return;
+    }
+
     for (const field of this.signature.outputs) {
       const value = output[field.name];
 
@@ -89,29 +356,31 @@ export abstract class Module<TInput extends Record<string, any>, TOutput extends
         continue;
       }
 
-      // Validate type
-      switch (field.type) {
-        case 'string':
-          if (typeof value !== 'string') {
-            throw new Error(`Invalid output: ${field.name} must be of type string`);
-          }
-          break;
-        case 'number':
-          if (typeof value !== 'number') {
-            throw new Error(`Invalid output: ${field.name} must be of type number`);
-          }
-          break;
-        case 'boolean':
-          if (typeof value !== 'boolean') {
-            throw new Error(`Invalid output: ${field.name} must be of type boolean`);
-          }
-          break;
-        case 'object':
-          if (typeof value !== 'object' || value === null) {
-            throw new Error(`Invalid output: ${field.name} must be of type object`);
-          }
-          break;
+      // Validate type, including nested array items and object properties
+      const issue = validateFieldValue(field, value, field.name);
+      if (issue) {
+        throw new Error(`Invalid output: ${issue.path} ${issue.message}`);
       }
     }
   }
 }
+
+/**
+ * Deep copy modules, arrays and plain objects; other objects (LMs, adapters, schemas) are shared
+ */
+function cloneValue(value: any): any {
+  if (value instanceof Module) {
+    return value.clone();
+  }
+  if (Array.isArray(value)) {
+    return value.map(cloneValue);
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneValue(item);
+    }
+    return copy;
+  }
+  return value;
+}
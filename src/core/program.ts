@@ -0,0 +1,149 @@
+/**
+ * Program
+ *
+ * Base class for composite modules. Subclasses assign their submodules as
+ * properties and implement `forward`; the program discovers those submodules
+ * so optimizers can reach every predictor inside it.
+ */
+
+import { Module } from './module';
+import { Signature, resolveSignature } from './signature';
+
+/**
+ * A submodule found on a program, with the property that holds it
+ */
+interface SubmoduleSlot {
+  name: string;
+  module: Module<any, any>;
+  owner: Record<string | number, any>;
+  key: string | number;
+}
+
+/**
+ * Base class for programs composed of other modules.
+ *
+ * @example
+ * class RAG extends Program<{ question: string }, { answer: string }> {
+ *   retrieve = new PredictModule({ name: 'Retrieve', signature: parseSignature('question -> context') });
+ *   answer = new ChainOfThought({ name: 'Answer', signature: parseSignature('question, context -> answer') });
+ *
+ *   async forward({ question }: { question: string }) {
+ *     const { context } = await this.retrieve.run({ question });
+ *     const { answer } = await this.answer.run({ question, context });
+ *     return { answer };
+ *   }
+ * }
+ */
+export abstract class Program<
+  TInput extends Record<string, any> = Record<string, any>,
+  TOutput extends Record<string, any> = Record<string, any>
+> extends Module<TInput, TOutput> {
+  /**
+   * @param options.signature Optional signature for the program as a whole; inputs and
+   *   outputs are only validated when one is given
+   */
+  constructor(options: { name: string; signature?: Signature | string }) {
+    super({
+      name: options.name,
+      signature: options.signature ? resolveSignature(options.signature) : { inputs: [], outputs: [] },
+      strategy: 'Program',
+    });
+  }
+
+  /**
+   * Compute the program output, calling submodules as needed
+   */
+  public abstract forward(input: TInput): Promise<TOutput>;
+
+  /**
+   * Validate the input, run `forward` and validate the output
+   */
+  public async run(input: TInput): Promise<TOutput> {
+    this.validateInput(input);
+    const output = await this.forward(input);
+    this.validateOutput(output);
+    return output;
+  }
+
+  /**
+   * All submodules, including nested ones, named by their property path
+   * (e.g. `answer`, `hops[1]`, `inner.classify`)
+   */
+  public namedSubmodules(): Array<[string, Module<any, any>]> {
+    const submodules: Array<[string, Module<any, any>]> = [];
+    for (const { name, module } of this.submoduleSlots()) {
+      submodules.push([name, module]);
+      if (module instanceof Program) {
+        for (const [childName, child] of module.namedSubmodules()) {
+          submodules.push([`${name}.${childName}`, child]);
+        }
+      }
+    }
+    return submodules;
+  }
+
+  /**
+   * The predictors of this program: submodules that are not programs themselves
+   */
+  public namedPredictors(): Array<[string, Module<any, any>]> {
+    return this.namedSubmodules().filter(([, module]) => !(module instanceof Program));
+  }
+
+  /**
+   * The predictors of this program, without names
+   */
+  public predictors(): Module<any, any>[] {
+    return this.namedPredictors().map(([, module]) => module);
+  }
+
+  /**
+   * Learnable parameters of the program: the predictors whose prompts optimizers tune
+   */
+  public parameters(): Module<any, any>[] {
+    return this.predictors();
+  }
+
+  /**
+   * Replace every predictor with the result of `fn`, in place
+   */
+  public mapNamedPredictors(fn: (name: string, predictor: Module<any, any>) => Module<any, any>): this {
+    for (const slot of this.submoduleSlots()) {
+      if (slot.module instanceof Program) {
+        slot.module.mapNamedPredictors((name, predictor) => fn(`${slot.name}.${name}`, predictor));
+      } else {
+        slot.owner[slot.key] = fn(slot.name, slot.module);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Clear learned state on every predictor
+   */
+  public reset(): void {
+    for (const predictor of this.predictors()) {
+      predictor.reset();
+    }
+  }
+
+  /**
+   * Find the direct submodules held in properties, arrays and plain objects
+   */
+  private submoduleSlots(): SubmoduleSlot[] {
+    const slots: SubmoduleSlot[] = [];
+
+    const visit = (owner: Record<string | number, any>, key: string | number, name: string): void => {
+      const value = owner[key];
+      if (value instanceof Module) {
+        slots.push({ name, module: value, owner, key });
+      } else if (Array.isArray(value)) {
+        value.forEach((_, i) => visit(value, i, `${name}[${i}]`));
+      } else if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        Object.keys(value).forEach(childKey => visit(value, childKey, `${name}.${childKey}`));
+      }
+    };
+
+    Object.keys(this).forEach(key => visit(this as Record<string, any>, key, key));
+    return slots;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Settings
+ *
+ * Single registry for the LM and adapter that modules use by default.
+ * Global values are set with `configure` / `configureLM`; `withSettings` and
+ * `withLM` override them for the duration of a call. Overrides are tracked with
+ * AsyncLocalStorage, so concurrent requests each see their own.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { LMDriver, LMError, ChatMessage } from '../lm/base';
+import { Adapter } from '../adapters/base';
+import { Module } from './module';
+
+/**
+ * A predictor call recorded while tracing
+ */
+export interface TraceEntry {
+  module: Module<any, any>;
+  input: Record<string, any>;
+  output: Record<string, any>;
+
+  /**
+   * Messages sent to the LM, for modules that answer with a single LM call
+   */
+  messages?: ChatMessage[];
+}
+
+/**
+ * Settings read by modules
+ */
+export interface Settings {
+  /**
+   * Language model driver
+   */
+  lm?: LMDriver;
+
+  /**
+   * Adapter for modules that do not set their own
+   */
+  adapter?: Adapter;
+
+  /**
+   * Predictor calls are appended here while set; see `withTrace`
+   */
+  trace?: TraceEntry[];
+}
+
+const globalSettings: Settings = {};
+const scopedSettings = new AsyncLocalStorage<Settings>();
+
+/**
+ * Update the global settings
+ */
+export function configure(settings: Settings): void {
+  Object.assign(globalSettings, settings);
+}
+
+/**
+ * Get the settings in effect, with scoped overrides applied over the global settings
+ */
+export function getSettings(): Settings {
+  return { ...globalSettings, ...scopedSettings.getStore() };
+}
+
+/**
+ * Run a function with settings overridden for its whole async call tree
+ *
+ * @example
+ * const answer = await withSettings({ lm: gpt4 }, () => qa.run({ question }));
+ */
+export function withSettings<T>(settings: Settings, fn: () => T): T {
+  const overrides: Settings = { ...scopedSettings.getStore() };
+  for (const [key, value] of Object.entries(settings)) {
+    if (value !== undefined) {
+      overrides[key as keyof Settings] = value;
+    }
+  }
+  return scopedSettings.run(overrides, fn);
+}
+
+/**
+ * Configure the global language model driver
+ */
+export function configureLM(lm: LMDriver): void {
+  globalSettings.lm = lm;
+}
+
+/**
+ * Get the language model driver in effect
+ * @throws {LMError} if no LM is configured
+ */
+export function getLM(): LMDriver {
+  const { lm } = getSettings();
+  if (!lm) {
+    throw new LMError('No language model configured. Call configureLM() first.');
+  }
+  return lm;
+}
+
+/**
+ * Run a function with a different language model driver
+ */
+export function withLM<T>(lm: LMDriver, fn: () => T): T {
+  return withSettings({ lm }, fn);
+}
+
+/**
+ * Run a function and record every predictor call made during it, in call order
+ *
+ * @example
+ * const { result, trace } = await withTrace(() => program.run({ question }));
+ */
+export async function withTrace<T>(fn: () => Promise<T>): Promise<{ result: T; trace: TraceEntry[] }> {
+  const trace: TraceEntry[] = [];
+  const result = await withSettings({ trace }, fn);
+  return { result, trace };
+}
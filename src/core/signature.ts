@@ -1,19 +1,81 @@
+/**
+ * Value types a field can hold.
+ */
+export type FieldType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'object'
+  | 'array'
+  | 'enum'
+  | 'literal';
+
+/**
+ * Primitive values usable in `enum` and `literal` fields
+ */
+export type LiteralValue = string | number | boolean;
+
+/**
+ * Describes the shape of a value, independent of the field that holds it.
+ */
+export interface FieldSchema {
+  type: FieldType;
+  /**
+   * Element schema for `array` fields
+   */
+  items?: FieldSchema;
+  /**
+   * Allowed values for `enum` fields
+   */
+  values?: LiteralValue[];
+  /**
+   * The only allowed value for `literal` fields
+   */
+  value?: LiteralValue;
+  /**
+   * Known keys for nested `object` fields
+   */
+  properties?: FieldDefinition[];
+}
+
 /**
  * Defines the structure for input and output fields of a DSPy.ts module.
  */
-export interface FieldDefinition {
+export interface FieldDefinition extends FieldSchema {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'object';
   description?: string;
   required?: boolean;
 }
 
+/**
+ * Field types accepted in signatures
+ */
+const FIELD_TYPES: ReadonlyArray<FieldType> = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'date',
+  'object',
+  'array',
+  'enum',
+  'literal',
+];
+
+/**
+ * Field types that need no further parameters
+ */
+const SIMPLE_TYPES: ReadonlyArray<FieldType> = ['string', 'number', 'integer', 'boolean', 'date', 'object'];
+
 /**
  * The signature interface describes the expected input and output fields for a module.
  */
 export interface Signature {
   inputs: FieldDefinition[];
   outputs: FieldDefinition[];
+  instructions?: string;
 }
 
 /**
@@ -29,11 +91,6 @@ export function isValidFieldDefinition(field: any): field is FieldDefinition {
     return false;
   }
 
-  // Validate type is one of the allowed values
-  if (!['string', 'number', 'boolean', 'object'].includes(field.type)) {
-    return false;
-  }
-
   // Optional properties type checking
   if (field.description !== undefined && typeof field.description !== 'string') {
     return false;
@@ -43,5 +100,285 @@ export function isValidFieldDefinition(field: any): field is FieldDefinition {
     return false;
   }
 
-  return true;
+  // Validate type and its parameters
+  return isValidFieldSchema(field);
+}
+
+/**
+ * Type guard to validate a field schema, including nested item and property schemas
+ */
+export function isValidFieldSchema(schema: any): schema is FieldSchema {
+  if (!schema || typeof schema !== 'object' || !FIELD_TYPES.includes(schema.type)) {
+    return false;
+  }
+
+  switch (schema.type) {
+    case 'array':
+      return isValidFieldSchema(schema.items);
+    case 'enum':
+      return (
+        Array.isArray(schema.values) &&
+        schema.values.length > 0 &&
+        schema.values.every(isLiteralValue)
+      );
+    case 'literal':
+      return isLiteralValue(schema.value);
+    case 'object':
+      return (
+        schema.properties === undefined ||
+        (Array.isArray(schema.properties) && schema.properties.every(isValidFieldDefinition))
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * Describe a field schema in signature syntax, e.g. `string[]` or `enum(positive, negative)`
+ */
+export function describeFieldType(schema: FieldSchema): string {
+  switch (schema.type) {
+    case 'array':
+      return `${describeFieldType(schema.items!)}[]`;
+    case 'enum':
+      return `enum(${schema.values!.map(formatLiteral).join(', ')})`;
+    case 'literal':
+      return `literal(${formatLiteral(schema.value!)})`;
+    case 'object':
+      return schema.properties && schema.properties.length > 0
+        ? `{ ${schema.properties.map(formatField).join(', ')} }`
+        : 'object';
+    default:
+      return schema.type;
+  }
+}
+
+/**
+ * Validate a complete signature, throwing a descriptive error on the first problem found.
+ */
+export function validateSignature(signature: Signature): void {
+  if (!Array.isArray(signature.inputs) || signature.inputs.length === 0) {
+    throw new Error('Invalid signature: at least one input field is required');
+  }
+  if (!Array.isArray(signature.outputs) || signature.outputs.length === 0) {
+    throw new Error('Invalid signature: at least one output field is required');
+  }
+
+  const seen = new Set<string>();
+  for (const field of [...signature.inputs, ...signature.outputs]) {
+    if (!isValidFieldDefinition(field)) {
+      throw new Error(`Invalid signature: malformed field ${JSON.stringify(field)}`);
+    }
+    if (seen.has(field.name)) {
+      throw new Error(`Invalid signature: duplicate field name "${field.name}"`);
+    }
+    seen.add(field.name);
+  }
+
+  if (signature.instructions !== undefined && typeof signature.instructions !== 'string') {
+    throw new Error('Invalid signature: instructions must be a string');
+  }
+}
+
+/**
+ * Parse a signature string such as
+ * `"question: string, context?: string -> answer: string, confidence: number"`.
+ *
+ * Each field is written as `name[?][: type] ["description"]`. A trailing `?` marks the
+ * field as optional and the type defaults to `string`. The string may start with a
+ * `"""docstring"""` holding the instructions; an explicit `instructions` argument wins.
+ */
+export function parseSignature(spec: string, instructions?: string): Signature {
+  let body = spec.trim();
+  let docstring: string | undefined;
+
+  const docMatch = body.match(/^"""([\s\S]*?)"""/);
+  if (docMatch) {
+    docstring = docMatch[1].trim();
+    body = body.slice(docMatch[0].length).trim();
+  }
+
+  const sides = splitTopLevel(body, '->');
+  if (sides.length !== 2) {
+    throw new Error(`Invalid signature "${spec}": expected exactly one "->"`);
+  }
+
+  const signature: Signature = {
+    inputs: parseFieldList(sides[0], spec),
+    outputs: parseFieldList(sides[1], spec),
+  };
+
+  const resolvedInstructions = instructions ?? docstring;
+  if (resolvedInstructions) {
+    signature.instructions = resolvedInstructions;
+  }
+
+  validateSignature(signature);
+  return signature;
+}
+
+/**
+ * Serialize a signature back into the string form accepted by `parseSignature`.
+ */
+export function signatureToString(signature: Signature): string {
+  const fields = (list: FieldDefinition[]): string => list.map(formatField).join(', ');
+  const body = `${fields(signature.inputs)} -> ${fields(signature.outputs)}`;
+  return signature.instructions ? `"""${signature.instructions}""" ${body}` : body;
+}
+
+/**
+ * Accept either a signature object or its string form and return a signature object.
+ * Strings are parsed and validated; objects are returned as given.
+ */
+export function resolveSignature(signature: Signature | string): Signature {
+  return typeof signature === 'string' ? parseSignature(signature) : signature;
+}
+
+/**
+ * Format a single field in the signature string syntax
+ */
+function formatField(field: FieldDefinition): string {
+  let text = `${field.name}${field.required === false ? '?' : ''}: ${describeFieldType(field)}`;
+  if (field.description) {
+    text += ` ${JSON.stringify(field.description)}`;
+  }
+  return text;
+}
+
+/**
+ * Parse a comma-separated list of field declarations
+ */
+function parseFieldList(list: string, spec: string): FieldDefinition[] {
+  if (list.trim() === '') {
+    return [];
+  }
+  return splitTopLevel(list, ',').map(part => parseField(part.trim(), spec));
+}
+
+/**
+ * Parse a single `name[?][: type] ["description"]` declaration
+ */
+function parseField(text: string, spec: string): FieldDefinition {
+  let rest = text;
+  let description: string | undefined;
+
+  const descMatch = rest.match(/"((?:[^"\\]|\\.)*)"\s*$/);
+  if (descMatch) {
+    description = JSON.parse(`"${descMatch[1]}"`);
+    rest = rest.slice(0, descMatch.index).trim();
+  }
+
+  const match = rest.match(/^([A-Za-z_][A-Za-z0-9_]*)(\?)?\s*(?::\s*(.+))?$/);
+  if (!match) {
+    throw new Error(`Invalid signature "${spec}": cannot parse field "${text}"`);
+  }
+
+  const [, name, optional, typeText] = match;
+  const field: FieldDefinition = {
+    name,
+    ...parseType((typeText || 'string').trim(), name, spec),
+    required: !optional,
+  };
+  if (description !== undefined) {
+    field.description = description;
+  }
+  return field;
+}
+
+/**
+ * Parse a type expression such as `number`, `string[]`, `enum(a, b)` or `{ x: number }`
+ */
+function parseType(text: string, name: string, spec: string): FieldSchema {
+  if (text.endsWith('[]')) {
+    return { type: 'array', items: parseType(text.slice(0, -2).trim(), name, spec) };
+  }
+
+  const call = text.match(/^(enum|literal)\s*\(([\s\S]*)\)$/);
+  if (call) {
+    const values = splitTopLevel(call[2], ',').map(value => parseLiteral(value.trim()));
+    if (call[1] === 'literal') {
+      if (values.length !== 1) {
+        throw new Error(`Invalid signature "${spec}": literal for field "${name}" takes one value`);
+      }
+      return { type: 'literal', value: values[0] };
+    }
+    return { type: 'enum', values };
+  }
+
+  if (text.startsWith('{') && text.endsWith('}')) {
+    return { type: 'object', properties: parseFieldList(text.slice(1, -1), spec) };
+  }
+
+  if (!SIMPLE_TYPES.includes(text as FieldType)) {
+    throw new Error(`Invalid signature "${spec}": unknown type "${text}" for field "${name}"`);
+  }
+  return { type: text as FieldType };
+}
+
+/**
+ * Parse an enum or literal value; bare words are read as strings
+ */
+function parseLiteral(text: string): LiteralValue {
+  if (text.startsWith('"') || /^(true|false|-?\d+(\.\d+)?)$/.test(text)) {
+    return JSON.parse(text);
+  }
+  return text;
+}
+
+/**
+ * Format an enum or literal value so that `parseLiteral` reads it back unchanged
+ */
+function formatLiteral(value: LiteralValue): string {
+  if (typeof value === 'string' && /^[A-Za-z_][\w-]*$/.test(value) && !/^(true|false)$/.test(value)) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Check whether a value can be used in an enum or literal field
+ */
+function isLiteralValue(value: any): value is LiteralValue {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Split text on a separator, ignoring separators nested in quotes or brackets
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuote = false;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuote) {
+      current += char;
+      if (char === '\\') {
+        current += text[++i] ?? '';
+      } else if (char === '"') {
+        inQuote = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuote = true;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && text.startsWith(separator, i)) {
+      parts.push(current);
+      current = '';
+      i += separator.length - 1;
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
 }
@@ -0,0 +1,87 @@
+/**
+ * Program state
+ *
+ * Declarative, JSON-serializable snapshot of what optimizers learn for each
+ * predictor: instructions, field metadata, demos and LM settings. States are
+ * plain data, so loading one never executes code.
+ */
+
+import { FieldDefinition } from './signature';
+import { GenerationOptions } from '../lm/base';
+import { TrainingExample } from '../optimize/base';
+
+/**
+ * Current state format version
+ */
+export const STATE_VERSION = 1;
+
+/**
+ * A signature field in saved state; only the name is kept unless field metadata is saved
+ */
+export type FieldState = Partial<FieldDefinition> & { name: string };
+
+/**
+ * Saved state of a single predictor
+ */
+export interface PredictorState {
+  signature: {
+    instructions?: string;
+    inputs: FieldState[];
+    outputs: FieldState[];
+  };
+  demos: TrainingExample[];
+  lm: {
+    /**
+     * Model of the bound LM, when known; recorded for reference, the LM itself is not restored
+     */
+    model?: string;
+    options: GenerationOptions;
+  };
+}
+
+/**
+ * Saved state of a module or program, keyed by predictor name
+ */
+export interface ProgramState {
+  version: number;
+  predictors: Record<string, PredictorState>;
+}
+
+/**
+ * Options for saving state
+ */
+export interface SaveStateOptions {
+  /**
+   * Also save field types and descriptions (default: false)
+   */
+  fieldMeta?: boolean;
+}
+
+/**
+ * Check that a value has the shape of a program state
+ * @throws {Error} naming the first problem found
+ */
+export function validateProgramState(state: any): asserts state is ProgramState {
+  if (!state || typeof state !== 'object') {
+    throw new Error('Invalid program state: expected an object');
+  }
+  if (state.version !== STATE_VERSION) {
+    throw new Error(`Unsupported program state version: ${state.version} (expected ${STATE_VERSION})`);
+  }
+  if (!state.predictors || typeof state.predictors !== 'object') {
+    throw new Error('Invalid program state: missing predictors');
+  }
+
+  for (const [name, predictor] of Object.entries<any>(state.predictors)) {
+    const signature = predictor?.signature;
+    if (!signature || !Array.isArray(signature.inputs) || !Array.isArray(signature.outputs)) {
+      throw new Error(`Invalid program state: predictor "${name}" has no signature`);
+    }
+    if (!Array.isArray(predictor.demos)) {
+      throw new Error(`Invalid program state: predictor "${name}" has no demos`);
+    }
+    if (!predictor.lm || typeof predictor.lm.options !== 'object') {
+      throw new Error(`Invalid program state: predictor "${name}" has no LM settings`);
+    }
+  }
+}
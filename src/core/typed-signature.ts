@@ -0,0 +1,241 @@
+/**
+ * Zod-backed signatures
+ *
+ * Defines signatures from Zod object schemas so that module input and output
+ * types are inferred instead of repeated by hand, and converts between Zod
+ * schemas and plain `FieldDefinition` arrays.
+ */
+
+import { z } from 'zod';
+import { FieldDefinition, FieldSchema, LiteralValue, Signature } from './signature';
+
+/**
+ * A signature that also carries the Zod schemas its fields were derived from
+ */
+export interface TypedSignature<
+  TInput extends Record<string, any> = Record<string, any>,
+  TOutput extends Record<string, any> = Record<string, any>
+> extends Signature {
+  inputSchema: z.ZodType<TInput, z.ZodTypeDef, any>;
+  outputSchema: z.ZodType<TOutput, z.ZodTypeDef, any>;
+}
+
+/**
+ * Input type of a typed signature
+ */
+export type SignatureInput<S> = S extends TypedSignature<infer TInput, any> ? TInput : Record<string, any>;
+
+/**
+ * Output type of a typed signature
+ */
+export type SignatureOutput<S> = S extends TypedSignature<any, infer TOutput> ? TOutput : Record<string, any>;
+
+/**
+ * Options for defining a typed signature
+ */
+export interface TypedSignatureOptions<I extends z.AnyZodObject, O extends z.AnyZodObject> {
+  inputs: I;
+  outputs: O;
+  instructions?: string;
+}
+
+/**
+ * Define a signature from Zod object schemas.
+ *
+ * @example
+ * const qa = defineSignature({
+ *   inputs: z.object({ question: z.string() }),
+ *   outputs: z.object({ answer: z.string(), confidence: z.number().min(0).max(1) }),
+ * });
+ */
+export function defineSignature<I extends z.AnyZodObject, O extends z.AnyZodObject>(
+  options: TypedSignatureOptions<I, O>
+): TypedSignature<z.infer<I>, z.infer<O>> {
+  const signature: TypedSignature<z.infer<I>, z.infer<O>> = {
+    inputs: zodToFields(options.inputs),
+    outputs: zodToFields(options.outputs),
+    inputSchema: options.inputs,
+    outputSchema: options.outputs,
+  };
+  if (options.instructions) {
+    signature.instructions = options.instructions;
+  }
+  return signature;
+}
+
+/**
+ * Type guard for signatures carrying Zod schemas
+ */
+export function isTypedSignature(signature: Signature): signature is TypedSignature {
+  const candidate = signature as Partial<TypedSignature>;
+  return candidate.inputSchema instanceof z.ZodType && candidate.outputSchema instanceof z.ZodType;
+}
+
+/**
+ * Convert a Zod object schema into field definitions
+ */
+export function zodToFields(schema: z.AnyZodObject): FieldDefinition[] {
+  return Object.entries(schema.shape as z.ZodRawShape).map(([name, fieldSchema]) => {
+    const { schema: inner, optional } = unwrap(fieldSchema);
+    const field: FieldDefinition = {
+      name,
+      ...zodToFieldSchema(inner, name),
+      required: !optional,
+    };
+    const description = fieldSchema.description ?? inner.description;
+    if (description) {
+      field.description = description;
+    }
+    return field;
+  });
+}
+
+/**
+ * Convert field definitions into a Zod object schema
+ */
+export function fieldsToZod(fields: FieldDefinition[]): z.AnyZodObject {
+  const shape: z.ZodRawShape = {};
+  for (const field of fields) {
+    let schema = fieldSchemaToZod(field);
+    if (field.description) {
+      schema = schema.describe(field.description);
+    }
+    shape[field.name] = field.required ? schema : schema.optional();
+  }
+  return z.object(shape);
+}
+
+/**
+ * Validate a value against a Zod schema, throwing an error that names the
+ * exact path and reason of the first problem, e.g. `Invalid input: tags[1] expected string, received number`.
+ */
+export function assertMatchesSchema(
+  schema: z.ZodTypeAny,
+  value: unknown,
+  kind: 'input' | 'output'
+): void {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return;
+  }
+
+  const issue = result.error.issues[0];
+  const path = formatPath(issue.path);
+
+  if (issue.code === 'invalid_type' && issue.received === 'undefined') {
+    throw new Error(
+      issue.path.length === 1
+        ? `Missing required ${kind} field: ${path}`
+        : `Invalid ${kind}: ${path} is required`
+    );
+  }
+
+  const reason = issue.message.charAt(0).toLowerCase() + issue.message.slice(1);
+  throw new Error(path ? `Invalid ${kind}: ${path} ${reason}` : `Invalid ${kind}: ${reason}`);
+}
+
+/**
+ * Convert a single (unwrapped) Zod schema into a field schema
+ */
+function zodToFieldSchema(schema: z.ZodTypeAny, name: string): FieldSchema {
+  if (schema instanceof z.ZodString) {
+    return schema.isDatetime || schema.isDate ? { type: 'date' } : { type: 'string' };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return schema.isInt ? { type: 'integer' } : { type: 'number' };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodDate) {
+    return { type: 'date' };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'enum', values: [...schema.options] };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.entries(schema.enum as Record<string, LiteralValue>)
+      .filter(([key]) => isNaN(Number(key)))
+      .map(([, value]) => value);
+    return { type: 'enum', values };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { type: 'literal', value: schema.value };
+  }
+  if (schema instanceof z.ZodUnion && schema.options.every((o: z.ZodTypeAny) => o instanceof z.ZodLiteral)) {
+    return { type: 'enum', values: schema.options.map((o: z.ZodLiteral<LiteralValue>) => o.value) };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToFieldSchema(unwrap(schema.element).schema, name) };
+  }
+  if (schema instanceof z.ZodObject) {
+    return { type: 'object', properties: zodToFields(schema) };
+  }
+  if (schema instanceof z.ZodRecord || schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) {
+    return { type: 'object' };
+  }
+  throw new Error(`Unsupported Zod type ${schema.constructor.name} for field "${name}"`);
+}
+
+/**
+ * Convert a field schema into a Zod schema
+ */
+function fieldSchemaToZod(schema: FieldSchema): z.ZodTypeAny {
+  switch (schema.type) {
+    case 'string':
+      return z.string();
+    case 'number':
+      return z.number();
+    case 'integer':
+      return z.number().int();
+    case 'boolean':
+      return z.boolean();
+    case 'date':
+      return z.coerce.date();
+    case 'enum':
+      return schema.values!.every(v => typeof v === 'string')
+        ? z.enum(schema.values as [string, ...string[]])
+        : z.union(
+            schema.values!.map(v => z.literal(v)) as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]
+          );
+    case 'literal':
+      return z.literal(schema.value!);
+    case 'array':
+      return z.array(fieldSchemaToZod(schema.items!));
+    case 'object':
+      return schema.properties && schema.properties.length > 0
+        ? fieldsToZod(schema.properties)
+        : z.record(z.any());
+  }
+}
+
+/**
+ * Strip optional, nullable, default and effect wrappers from a Zod schema
+ */
+function unwrap(schema: z.ZodTypeAny): { schema: z.ZodTypeAny; optional: boolean } {
+  let current = schema;
+  let optional = false;
+
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      optional = true;
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      optional = true;
+      current = current.removeDefault();
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      return { schema: current, optional };
+    }
+  }
+}
+
+/**
+ * Format a Zod issue path as `tags[1]` or `author.name`
+ */
+function formatPath(path: Array<string | number>): string {
+  return path
+    .map((segment, i) => (typeof segment === 'number' ? `[${segment}]` : i === 0 ? segment : `.${segment}`))
+    .join('');
+}
@@ -0,0 +1,291 @@
+/**
+ * Evaluate
+ *
+ * Runs a module or pipeline over a devset, scores every output with a metric
+ * and reports the average score along with per-example results.
+ */
+
+import { Module } from '../core/module';
+import { Pipeline } from '../core/pipeline';
+import { toTrainingExample, toOutputs } from '../core/example';
+import { MetricFunction, TrainingData, TrainingExample } from '../optimize/base';
+
+/**
+ * Evaluation configuration
+ */
+export interface EvaluateConfig {
+  /**
+   * Number of examples run concurrently (default: 1)
+   */
+  numThreads?: number;
+
+  /**
+   * Time limit per example in milliseconds; slower examples count as errors (default: none)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Number of failed examples tolerated before the evaluation is aborted (default: unlimited)
+   */
+  maxErrors?: number;
+
+  /**
+   * Score given to failed examples (default: 0)
+   */
+  failureScore?: number;
+
+  /**
+   * Called after each example completes
+   */
+  onProgress?: (progress: EvaluateProgress) => void;
+}
+
+/**
+ * Progress of a running evaluation
+ */
+export interface EvaluateProgress {
+  completed: number;
+  total: number;
+  errors: number;
+
+  /**
+   * Average score of the completed examples
+   */
+  score: number;
+}
+
+/**
+ * Outcome of a single example
+ */
+export interface ExampleResult<TInput = any, TOutput = any> {
+  /**
+   * Position of the example in the devset
+   */
+  index: number;
+  input: TInput;
+  expected?: TOutput;
+  output?: TOutput;
+  score: number;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Outcome of an evaluation
+ */
+export interface EvaluationResult<TInput = any, TOutput = any> {
+  /**
+   * Average score over all examples, failed ones included
+   */
+  score: number;
+  total: number;
+  errors: number;
+
+  /**
+   * Per-example results, in devset order
+   */
+  results: ExampleResult<TInput, TOutput>[];
+}
+
+/**
+ * Thrown when more than `maxErrors` examples fail. Carries the results collected so far.
+ */
+export class EvaluationAbortedError<TInput = any, TOutput = any> extends Error {
+  /**
+   * Results of the examples that finished before the abort; `score` averages over them
+   */
+  readonly result: EvaluationResult<TInput, TOutput>;
+
+  constructor(message: string, result: EvaluationResult<TInput, TOutput>) {
+    super(message);
+    this.name = 'EvaluationAbortedError';
+    this.result = result;
+  }
+}
+
+/**
+ * Scores a module or pipeline on a devset.
+ *
+ * @example
+ * const evaluate = new Evaluate(exactMatch(), { numThreads: 4, timeoutMs: 30000 });
+ * const { score, results } = await evaluate.run(qa, devset);
+ */
+export class Evaluate<TInput = any, TOutput = any> {
+  private readonly config: Required<Omit<EvaluateConfig, 'onProgress'>>;
+  private readonly onProgress?: (progress: EvaluateProgress) => void;
+
+  constructor(
+    private readonly metric: MetricFunction<TInput, TOutput>,
+    config: EvaluateConfig = {}
+  ) {
+    const { onProgress, ...options } = config;
+    this.onProgress = onProgress;
+    this.config = {
+      numThreads: 1,
+      timeoutMs: 0,
+      maxErrors: Infinity,
+      failureScore: 0,
+      ...options
+    };
+  }
+
+  /**
+   * Run the program on every example and score its outputs
+   * @throws {EvaluationAbortedError} if more than `maxErrors` examples fail
+   */
+  async run(
+    program: Module<any, any> | Pipeline,
+    devset: TrainingData<TInput, TOutput>[]
+  ): Promise<EvaluationResult<TInput, TOutput>> {
+    const examples = devset.map(example => toTrainingExample<TInput, TOutput>(example));
+    const results: ExampleResult<TInput, TOutput>[] = new Array(examples.length);
+    let next = 0;
+    let completed = 0;
+    let errors = 0;
+    let scoreSum = 0;
+    let aborted = false;
+
+    const worker = async (): Promise<void> => {
+      while (!aborted && next < examples.length) {
+        const index = next++;
+        const result = await this.evaluateExample(program, examples[index], index);
+        results[index] = result;
+
+        completed++;
+        scoreSum += result.score;
+        if (result.error !== undefined && ++errors > this.config.maxErrors) {
+          aborted = true;
+        }
+        this.onProgress?.({ completed, total: examples.length, errors, score: scoreSum / completed });
+      }
+    };
+
+    const threads = Math.max(1, Math.min(this.config.numThreads, examples.length));
+    await Promise.all(Array.from({ length: threads }, worker));
+
+    if (aborted) {
+      throw new EvaluationAbortedError(
+        `Evaluation aborted: ${errors} examples failed (maxErrors: ${this.config.maxErrors})`,
+        {
+          score: scoreSum / completed,
+          total: examples.length,
+          errors,
+          results: results.filter(result => result !== undefined)
+        }
+      );
+    }
+
+    return {
+      score: examples.length > 0 ? scoreSum / examples.length : 0,
+      total: examples.length,
+      errors,
+      results
+    };
+  }
+
+  private async evaluateExample(
+    program: Module<any, any> | Pipeline,
+    example: TrainingExample<TInput, TOutput>,
+    index: number
+  ): Promise<ExampleResult<TInput, TOutput>> {
+    const start = Date.now();
+    const base = { index, input: example.input, expected: example.output };
+
+    try {
+      // Programs may return a `Prediction`; metrics and results get its field values
+      const output = toOutputs<TOutput>(await this.withTimeout(runProgram(program, example.input)));
+      const score = await this.metric(example.input, output, example.output);
+      return { ...base, output, score: Number(score), durationMs: Date.now() - start };
+    } catch (error) {
+      return {
+        ...base,
+        score: this.config.failureScore,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - start
+      };
+    }
+  }
+
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    if (!this.config.timeoutMs) {
+      return promise;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${this.config.timeoutMs}ms`)),
+        this.config.timeoutMs
+      );
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Run a module, or a pipeline and unwrap its final output
+ */
+async function runProgram(program: Module<any, any> | Pipeline, input: any): Promise<any> {
+  if (program instanceof Pipeline) {
+    const result = await program.run(input);
+    if (!result.success) {
+      throw result.error ?? new Error('Pipeline failed');
+    }
+    return result.finalOutput;
+  }
+  return program.run(input);
+}
+
+/**
+ * Serialize per-example results as a JSON array
+ */
+export function resultsToJSON(result: EvaluationResult): string {
+  return JSON.stringify(result.results, null, 2);
+}
+
+/**
+ * Serialize per-example results as CSV, with one column per input, expected and output field
+ * (e.g. `input.question`, `expected.answer`, `output.answer`); object values are written as JSON
+ */
+export function resultsToCSV(result: EvaluationResult): string {
+  const fieldNames = (key: 'input' | 'expected' | 'output'): string[] => {
+    const names = new Set<string>();
+    for (const row of result.results) {
+      Object.keys(row[key] ?? {}).forEach(name => names.add(name));
+    }
+    return [...names];
+  };
+  const groups = (['input', 'expected', 'output'] as const).map(key => ({ key, names: fieldNames(key) }));
+
+  const header = [
+    'index',
+    ...groups.flatMap(({ key, names }) => names.map(name => `${key}.${name}`)),
+    'score',
+    'error',
+    'durationMs'
+  ];
+  const rows = result.results.map(row => [
+    row.index,
+    ...groups.flatMap(({ key, names }) => names.map(name => row[key]?.[name])),
+    row.score,
+    row.error,
+    row.durationMs
+  ]);
+
+  return [header, ...rows].map(cells => cells.map(csvCell).join(',')).join('\n');
+}
+
+/**
+ * Format a value as a CSV cell, quoting it when needed
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,9 @@
+/**
+ * DSPy Evaluation
+ *
+ * Scoring programs on devsets
+ */
+
+export * from './evaluate';
+export * from './metrics';
+export * from './judge';
@@ -0,0 +1,273 @@
+/**
+ * LM Judge Metrics
+ *
+ * Metrics that ask a language model to grade an output. A judge is a
+ * `PredictModule` over a grading signature; its numeric or boolean output
+ * becomes the score.
+ */
+
+import { PredictModule } from '../modules/predict';
+import { Signature, resolveSignature } from '../core/signature';
+import { Adapter } from '../adapters/base';
+import { LMDriver } from '../lm/base';
+import { MetricFunction, MetricScore } from '../optimize/base';
+
+/**
+ * LM judge configuration
+ */
+export interface LMJudgeOptions {
+  /**
+   * Grading signature, e.g. `"question, gold, predicted -> correct: boolean, rationale: string"`
+   */
+  signature: Signature | string;
+
+  /**
+   * Build the judge inputs from the metric arguments (default: the example inputs, plus
+   * `gold` and `predicted` holding the compared field of the expected and actual output)
+   */
+  inputs?: (input: any, output: any, expected?: any) => Record<string, any>;
+
+  /**
+   * Turn the judge's outputs into a score (default: the first boolean or number output
+   * field, with numbers clamped to [0, 1])
+   */
+  score?: (judgement: Record<string, any>) => MetricScore;
+
+  /**
+   * Output field compared by the default `inputs` (default: the first field of the expected output)
+   */
+  field?: string;
+
+  /**
+   * LM for the judge (default: the configured LM)
+   */
+  lm?: LMDriver;
+
+  adapter?: Adapter;
+
+  /**
+   * Reuse judgements for identical judge inputs (default: false)
+   */
+  cache?: boolean;
+}
+
+/**
+ * Metric that grades outputs with an LM and a user-provided signature.
+ *
+ * @example
+ * const judge = new LMJudge({
+ *   signature: 'question, gold, predicted -> correct: boolean, rationale: string',
+ *   cache: true,
+ * });
+ * const result = await new Evaluate(judge.metric).run(qa, devset);
+ */
+export class LMJudge {
+  /**
+   * The module that runs the grading signature
+   */
+  readonly module: PredictModule<Record<string, any>, Record<string, any>>;
+
+  private readonly judgements = new Map<string, Promise<Record<string, any>>>();
+
+  constructor(private readonly options: LMJudgeOptions) {
+    const signature = resolveSignature(options.signature);
+    this.module = new PredictModule({
+      name: 'LMJudge',
+      signature,
+      lm: options.lm,
+      adapter: options.adapter,
+    });
+
+    if (!options.score && !scoreField(signature)) {
+      throw new Error('LMJudge signature needs a boolean or number output field, or a score function');
+    }
+  }
+
+  /**
+   * Grade an output and return all of the judge's output fields
+   */
+  judge(input: any, output: any, expected?: any): Promise<Record<string, any>> {
+    const judgeInputs: Record<string, any> = {};
+    for (const [name, value] of Object.entries(this.buildInputs(input, output, expected))) {
+      if (value !== undefined) {
+        judgeInputs[name] = value;
+      }
+    }
+    if (!this.options.cache) {
+      return this.module.run(judgeInputs);
+    }
+
+    const key = JSON.stringify(judgeInputs);
+    let judgement = this.judgements.get(key);
+    if (!judgement) {
+      judgement = this.module.run(judgeInputs);
+      // Failed calls are not cached, so they are retried next time
+      judgement.catch(() => this.judgements.delete(key));
+      this.judgements.set(key, judgement);
+    }
+    return judgement;
+  }
+
+  /**
+   * The judge as a metric function
+   */
+  readonly metric: MetricFunction = async (input, output, expected) => {
+    const judgement = await this.judge(input, output, expected);
+    if (this.options.score) {
+      return this.options.score(judgement);
+    }
+    return toScore(judgement[scoreField(this.module.signature)!.name]);
+  };
+
+  /**
+   * Forget cached judgements
+   */
+  clearCache(): void {
+    this.judgements.clear();
+  }
+
+  private buildInputs(input: any, output: any, expected?: any): Record<string, any> {
+    if (this.options.inputs) {
+      return this.options.inputs(input, output, expected);
+    }
+
+    const available: Record<string, any> = {
+      ...input,
+      gold: fieldValue(expected, this.options.field),
+      predicted: fieldValue(output, this.options.field),
+    };
+    return Object.fromEntries(
+      this.module.signature.inputs.map(field => [field.name, available[field.name]])
+    );
+  }
+}
+
+/**
+ * Options for the built-in judge metrics
+ */
+export interface JudgeMetricOptions {
+  /**
+   * Output field to grade (default: the first field of the expected output)
+   */
+  field?: string;
+
+  /**
+   * Input field holding the question (default: the first input field)
+   */
+  questionField?: string;
+
+  lm?: LMDriver;
+  adapter?: Adapter;
+  cache?: boolean;
+}
+
+/**
+ * LM-judged F1 of the key ideas in the response against those in the ground truth
+ */
+export function semanticF1(options: JudgeMetricOptions = {}): MetricFunction {
+  const judge = new LMJudge({
+    ...options,
+    signature: {
+      instructions:
+        'Compare a system response to the ground truth for a question. Estimate recall as the fraction ' +
+        'of key ideas in the ground truth that the response covers, and precision as the fraction of ' +
+        'key ideas in the response that the ground truth supports.',
+      inputs: [
+        { name: 'question', type: 'string', required: false },
+        { name: 'ground_truth', type: 'string' },
+        { name: 'system_response', type: 'string' },
+      ],
+      outputs: [
+        { name: 'recall', type: 'number', description: 'Between 0 and 1' },
+        { name: 'precision', type: 'number', description: 'Between 0 and 1' },
+      ],
+    },
+    inputs: (input, output, expected) => ({
+      question: questionText(input, options.questionField),
+      ground_truth: toText(fieldValue(expected, options.field)),
+      system_response: toText(fieldValue(output, options.field)),
+    }),
+    score: ({ recall, precision }) => {
+      const r = toScore(recall);
+      const p = toScore(precision);
+      return r + p > 0 ? (2 * r * p) / (r + p) : 0;
+    },
+  });
+  return judge.metric;
+}
+
+/**
+ * LM-judged correctness of an answer against the gold answer, scored 1 or 0
+ */
+export function answerCorrectness(options: JudgeMetricOptions = {}): MetricFunction {
+  const judge = new LMJudge({
+    ...options,
+    signature: {
+      instructions:
+        'Decide whether the predicted answer to the question is correct, given the gold answer. ' +
+        'Wording may differ; the meaning must match.',
+      inputs: [
+        { name: 'question', type: 'string', required: false },
+        { name: 'gold', type: 'string' },
+        { name: 'predicted', type: 'string' },
+      ],
+      outputs: [
+        { name: 'rationale', type: 'string' },
+        { name: 'correct', type: 'boolean' },
+      ],
+    },
+    inputs: (input, output, expected) => ({
+      question: questionText(input, options.questionField),
+      gold: toText(fieldValue(expected, options.field)),
+      predicted: toText(fieldValue(output, options.field)),
+    }),
+  });
+  return judge.metric;
+}
+
+/**
+ * The first boolean or number output field of a judge signature
+ */
+function scoreField(signature: Signature): Signature['outputs'][number] | undefined {
+  return signature.outputs.find(field => field.type === 'boolean' || field.type === 'number');
+}
+
+/**
+ * A named field of a record, or its first field
+ */
+function fieldValue(record: any, field?: string): any {
+  if (!record || typeof record !== 'object') {
+    return record;
+  }
+  return record[field ?? Object.keys(record)[0]];
+}
+
+/**
+ * Render a value for a string prompt field: strings as they are, anything else as JSON
+ */
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value : String(JSON.stringify(value));
+}
+
+/**
+ * The question for a built-in judge, or undefined when the input has no fields
+ * @throws {Error} if a configured question field is missing from the input
+ */
+function questionText(input: any, questionField?: string): string | undefined {
+  if (questionField !== undefined && input?.[questionField] === undefined) {
+    throw new Error(`Judge input is missing the question field "${questionField}"`);
+  }
+  const question = fieldValue(input, questionField);
+  return question === undefined ? undefined : toText(question);
+}
+
+/**
+ * Convert a judge output to a score in [0, 1]
+ */
+function toScore(value: unknown): number {
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(1, Math.max(0, number)) : 0;
+}
@@ -0,0 +1,295 @@
+/**
+ * Metrics
+ *
+ * Ready-made metric functions for evaluation and optimization. Each factory
+ * returns a `MetricFunction` that compares one field of the output with the
+ * same field of the expected output and scores it in [0, 1]. Without a `field`
+ * option, the first field of the expected output is compared.
+ */
+
+import { MetricFunction, MetricScore } from '../optimize/base';
+import { deepEqual } from '../utils/deep-equal';
+
+/**
+ * Options shared by the field-comparing metrics
+ */
+export interface FieldMetricOptions {
+  /**
+   * Output field to compare (default: the first field of the expected output)
+   */
+  field?: string;
+}
+
+/**
+ * Normalize an answer for comparison: lowercase, drop punctuation and the
+ * articles "a", "an" and "the", and collapse whitespace
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\b(a|an|the)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 1 if the output value equals the expected value; strings are compared after trimming
+ */
+export function exactMatch(options: FieldMetricOptions & { caseSensitive?: boolean } = {}): MetricFunction {
+  const caseSensitive = options.caseSensitive ?? true;
+  return (_input, output, expected) => {
+    const values = fieldValues(output, expected, options.field);
+    if (!values) {
+      return 0;
+    }
+    return candidates(values.expected).some(candidate => {
+      if (typeof candidate === 'string' && typeof values.output === 'string') {
+        const a = candidate.trim();
+        const b = values.output.trim();
+        return caseSensitive ? a === b : a.toLowerCase() === b.toLowerCase();
+      }
+      return deepEqual(candidate, values.output);
+    }) ? 1 : 0;
+  };
+}
+
+/**
+ * 1 if the normalized output matches the normalized expected answer, or any of
+ * several acceptable answers when the expected value is an array
+ */
+export function answerMatch(options: FieldMetricOptions = {}): MetricFunction {
+  return (_input, output, expected) => {
+    const values = fieldValues(output, expected, options.field);
+    if (!values) {
+      return 0;
+    }
+    const predicted = normalizeAnswer(String(values.output));
+    return candidates(values.expected).some(answer => normalizeAnswer(String(answer)) === predicted) ? 1 : 0;
+  };
+}
+
+/**
+ * Token-level F1 between the normalized output and expected answer; the best
+ * score is taken when the expected value is an array of acceptable answers
+ */
+export function tokenF1(options: FieldMetricOptions = {}): MetricFunction {
+  return (_input, output, expected) => {
+    const values = fieldValues(output, expected, options.field);
+    if (!values) {
+      return 0;
+    }
+    const predicted = tokenize(String(values.output));
+    return Math.max(0, ...candidates(values.expected).map(answer => f1(predicted, tokenize(String(answer)))));
+  };
+}
+
+/**
+ * 1 if the output contains the expected value, or any of several when it is an array
+ */
+export function contains(options: FieldMetricOptions & { caseSensitive?: boolean } = {}): MetricFunction {
+  const caseSensitive = options.caseSensitive ?? false;
+  const fold = (text: string): string => (caseSensitive ? text : text.toLowerCase());
+  return (_input, output, expected) => {
+    const values = fieldValues(output, expected, options.field);
+    if (!values) {
+      return 0;
+    }
+    const text = fold(String(values.output));
+    return candidates(values.expected).some(part => text.includes(fold(String(part)))) ? 1 : 0;
+  };
+}
+
+/**
+ * Fraction of the expected passages found among the retrieved passages. A
+ * passage counts as found when a retrieved passage contains it after normalization.
+ */
+export function passageRecall(options: {
+  /**
+   * Output field holding the retrieved passages (default: `passages`)
+   */
+  field?: string;
+
+  /**
+   * Expected field holding the gold passages or answers (default: same as `field`)
+   */
+  expectedField?: string;
+} = {}): MetricFunction {
+  const field = options.field ?? 'passages';
+  const expectedField = options.expectedField ?? field;
+  return (_input, output, expected) => {
+    const gold = candidates(expected?.[expectedField]).map(passage => normalizeAnswer(String(passage)));
+    if (gold.length === 0) {
+      return 0;
+    }
+    const retrieved = candidates(output?.[field]).map(passage => normalizeAnswer(String(passage)));
+    const found = gold.filter(passage => retrieved.some(candidate => candidate.includes(passage)));
+    return found.length / gold.length;
+  };
+}
+
+/**
+ * 1 if the output number is within tolerance of the expected number. Numeric
+ * strings are parsed; with no tolerance given the numbers must be equal.
+ */
+export function numericMatch(options: FieldMetricOptions & {
+  /**
+   * Largest allowed absolute difference (default: 0)
+   */
+  absolute?: number;
+
+  /**
+   * Largest allowed difference relative to the expected value (default: 0)
+   */
+  relative?: number;
+} = {}): MetricFunction {
+  return (_input, output, expected) => {
+    const values = fieldValues(output, expected, options.field);
+    const predicted = toNumber(values?.output);
+    const target = toNumber(values?.expected);
+    if (predicted === undefined || target === undefined) {
+      return 0;
+    }
+    const tolerance = Math.max(options.absolute ?? 0, (options.relative ?? 0) * Math.abs(target));
+    return Math.abs(predicted - target) <= tolerance ? 1 : 0;
+  };
+}
+
+/**
+ * Fraction of expected fields whose output value is deeply equal to the expected value.
+ * JSON strings in the output are parsed before comparing.
+ */
+export function jsonFieldMatch(options: {
+  /**
+   * Fields to compare (default: every field of the expected output)
+   */
+  fields?: string[];
+} = {}): MetricFunction {
+  return (_input, output, expected) => {
+    if (!expected || !output) {
+      return 0;
+    }
+    const parsed = typeof output === 'string' ? parseJSON(output) : output;
+    const fields = options.fields ?? Object.keys(expected);
+    if (fields.length === 0 || !parsed || typeof parsed !== 'object') {
+      return 0;
+    }
+    const matched = fields.filter(name => {
+      const value = parsed[name];
+      const actual = typeof value === 'string' && typeof expected[name] !== 'string' ? parseJSON(value) : value;
+      return deepEqual(actual, expected[name]);
+    });
+    return matched.length / fields.length;
+  };
+}
+
+/**
+ * Weighted average of several metrics; the result is a promise if any metric is async
+ *
+ * @example
+ * const metric = weighted([
+ *   { metric: answerMatch(), weight: 3 },
+ *   { metric: tokenF1(), weight: 1 },
+ * ]);
+ */
+export function weighted(components: Array<{ metric: MetricFunction; weight?: number }>): MetricFunction {
+  const totalWeight = components.reduce((sum, { weight = 1 }) => sum + weight, 0);
+  if (components.length === 0 || totalWeight <= 0) {
+    throw new Error('weighted() needs at least one metric with a positive weight');
+  }
+  return (input, output, expected) => mapScores(
+    components.map(({ metric }) => metric(input, output, expected)),
+    scores => scores.reduce((sum, score, i) => sum + (components[i].weight ?? 1) * score, 0) / totalWeight
+  );
+}
+
+/**
+ * Turn a score into a pass/fail result, e.g. to accept bootstrapped demos
+ */
+export function passes(metric: MetricFunction, threshold = 1): MetricFunction {
+  return (input, output, expected) =>
+    mapScores([metric(input, output, expected)], ([score]) => score >= threshold);
+}
+
+/**
+ * Combine metric scores as numbers, synchronously unless one of them is a promise
+ */
+function mapScores(
+  scores: Array<MetricScore | Promise<MetricScore>>,
+  combine: (scores: number[]) => MetricScore
+): MetricScore | Promise<MetricScore> {
+  if (scores.some(score => score instanceof Promise)) {
+    return Promise.all(scores).then(resolved => combine(resolved.map(Number)));
+  }
+  return combine((scores as MetricScore[]).map(Number));
+}
+
+/**
+ * The output and expected values of the compared field, or null when there is nothing to compare
+ */
+function fieldValues(
+  output: any,
+  expected: any,
+  field?: string
+): { output: any; expected: any } | null {
+  if (!expected || output === undefined || output === null) {
+    return null;
+  }
+  const name = field ?? Object.keys(expected)[0];
+  if (name === undefined || expected[name] === undefined || output[name] === undefined) {
+    return null;
+  }
+  return { output: output[name], expected: expected[name] };
+}
+
+/**
+ * Acceptable values: the array elements, or the value itself
+ */
+function candidates(value: unknown): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function tokenize(text: string): string[] {
+  const normalized = normalizeAnswer(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+function f1(predicted: string[], gold: string[]): number {
+  if (predicted.length === 0 || gold.length === 0) {
+    return predicted.length === gold.length ? 1 : 0;
+  }
+  const remaining = new Map<string, number>();
+  for (const token of gold) {
+    remaining.set(token, (remaining.get(token) ?? 0) + 1);
+  }
+  let common = 0;
+  for (const token of predicted) {
+    const count = remaining.get(token) ?? 0;
+    if (count > 0) {
+      common++;
+      remaining.set(token, count - 1);
+    }
+  }
+  if (common === 0) {
+    return 0;
+  }
+  const precision = common / predicted.length;
+  const recall = common / gold.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value.replace(/[,\s]/g, '')) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function parseJSON(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
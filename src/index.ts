@@ -1,27 +1,33 @@
-import { LMDriver, LMError } from './lm/base';
-import { DummyLM } from './lm/dummy';
-
-// Global variable to hold the LM driver
-let globalLM: LMDriver | null = null;
-
-/**
- * Configure the global language model driver
- */
-export function configureLM(lm: LMDriver): void {
-  globalLM = lm;
-}
-
-/**
- * Get the currently configured LM driver
- * @throws {LMError} if no LM is configured
- */
-export function getLM(): LMDriver {
-  if (!globalLM) {
-    throw new LMError('No language model configured. Call configureLM() first.');
-  }
-  return globalLM;
-}
+export {
+  configure,
+  getSettings,
+  withSettings,
+  configureLM,
+  getLM,
+  withLM,
+  Settings,
+} from './core/settings';
 
 // Export LM-related types and implementations
-export { LMDriver, GenerationOptions, LMError } from './lm/base';
+export {
+  LMDriver,
+  GenerationOptions,
+  GenerationResult,
+  TokenUsage,
+  FinishReason,
+  LMError,
+  ChatMessage,
+  ChatRole,
+} from './lm/base';
 export { DummyLM } from './lm/dummy';
+export {
+  CachedLM,
+  withCache,
+  MemoryCacheBackend,
+  DiskCacheBackend,
+  CacheBackend,
+  CacheEntry,
+  CacheOptions,
+  CacheKeyRequest,
+  CacheStats,
+} from './lm/cache';
@@ -8,6 +8,68 @@ export interface GenerationOptions {
   stopSequences?: string[];
 }
 
+/**
+ * Role of a chat message
+ */
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+/**
+ * A single turn in a chat conversation
+ */
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+/**
+ * Token counts reported for a generation
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Normalized reason a generation stopped; `length` means the output hit `maxTokens`
+ */
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls' | 'unknown';
+
+/**
+ * Rich result of a generation call
+ */
+export interface GenerationResult {
+  /**
+   * Generated text
+   */
+  text: string;
+
+  /**
+   * Token usage, when the provider reports it
+   */
+  usage?: TokenUsage;
+
+  /**
+   * Why the generation stopped
+   */
+  finishReason?: FinishReason;
+
+  /**
+   * Model that produced the output
+   */
+  model?: string;
+
+  /**
+   * Wall-clock latency of the call in milliseconds
+   */
+  latencyMs?: number;
+
+  /**
+   * Raw provider response payload
+   */
+  raw?: unknown;
+}
+
 /**
  * Abstract interface for language model drivers.
  * All LM implementations must implement this interface.
@@ -21,6 +83,35 @@ export interface LMDriver {
    */
   generate(prompt: string, options?: GenerationOptions): Promise<string>;
 
+  /**
+   * Optional method to generate output from a list of chat messages.
+   * Drivers without it are called through `generate` with a flattened prompt.
+   * @param messages - System, user and assistant turns
+   * @param options - Optional generation parameters
+   * @returns A promise that resolves to the generated text
+   */
+  chat?(messages: ChatMessage[], options?: GenerationOptions): Promise<string>;
+
+  /**
+   * Optional method returning a rich result with usage, finish reason and raw payload
+   */
+  generateDetailed?(prompt: string, options?: GenerationOptions): Promise<GenerationResult>;
+
+  /**
+   * Optional chat method returning a rich result with usage, finish reason and raw payload
+   */
+  chatDetailed?(messages: ChatMessage[], options?: GenerationOptions): Promise<GenerationResult>;
+
+  /**
+   * Optional method streaming generated text chunks as they arrive
+   */
+  stream?(prompt: string, options?: GenerationOptions): AsyncIterable<string>;
+
+  /**
+   * Optional chat method streaming generated text chunks as they arrive
+   */
+  streamChat?(messages: ChatMessage[], options?: GenerationOptions): AsyncIterable<string>;
+
   /**
    * Optional method to initialize any resources needed by the LM
    */
@@ -52,19 +143,79 @@ export class LMError extends Error {
   }
 }
 
-// Global LM instance
-let globalLM: LMDriver | null = null;
+/**
+ * Flatten chat messages into a single prompt for drivers without chat support.
+ * A lone user message is passed through unchanged.
+ */
+export function messagesToPrompt(messages: ChatMessage[]): string {
+  if (messages.length === 1 && messages[0].role === 'user') {
+    return messages[0].content;
+  }
+
+  const labels: Record<ChatRole, string> = {
+    system: 'System',
+    user: 'User',
+    assistant: 'Assistant',
+  };
+  const turns = messages.map((m) => `${labels[m.role]}: ${m.content}`);
+  return [...turns, `${labels.assistant}:`].join('\n\n');
+}
+
+/**
+ * Send chat messages to a driver, falling back to `generate` when it has no `chat` method
+ */
+export function runChat(
+  lm: LMDriver,
+  messages: ChatMessage[],
+  options?: GenerationOptions
+): Promise<string> {
+  if (lm.chat) {
+    return lm.chat(messages, options);
+  }
+  return lm.generate(messagesToPrompt(messages), options);
+}
 
 /**
- * Configure the global language model
+ * Send chat messages to a driver and return a rich result, using the most
+ * detailed method the driver implements: `chatDetailed`, then `generateDetailed`
+ * on the flattened prompt, then `chat` and `generate`. Drivers returning plain
+ * text are wrapped in a result holding only the text and the measured latency.
  */
-export function configureLM(lm: LMDriver): void {
-  globalLM = lm;
+export async function runChatDetailed(
+  lm: LMDriver,
+  messages: ChatMessage[],
+  options?: GenerationOptions
+): Promise<GenerationResult> {
+  const start = Date.now();
+  let result: GenerationResult;
+
+  if (lm.chatDetailed) {
+    result = await lm.chatDetailed(messages, options);
+  } else if (lm.generateDetailed) {
+    result = await lm.generateDetailed(messagesToPrompt(messages), options);
+  } else if (lm.chat) {
+    result = { text: await lm.chat(messages, options) };
+  } else {
+    result = { text: await lm.generate(messagesToPrompt(messages), options) };
+  }
+
+  return { latencyMs: Date.now() - start, ...result };
 }
 
 /**
- * Get the global language model
+ * Stream chat messages from a driver, using `streamChat` or `stream` when available.
+ * Drivers without streaming support yield their whole response as a single chunk.
  */
-export function getLM(): LMDriver | null {
-  return globalLM;
+export async function* runChatStream(
+  lm: LMDriver,
+  messages: ChatMessage[],
+  options?: GenerationOptions
+): AsyncGenerator<string> {
+  if (lm.streamChat) {
+    yield* lm.streamChat(messages, options);
+  } else if (lm.stream) {
+    yield* lm.stream(messagesToPrompt(messages), options);
+  } else {
+    yield await runChat(lm, messages, options);
+  }
 }
@@ -0,0 +1,389 @@
+/**
+ * LM Response Cache
+ *
+ * Wraps any LM driver so identical requests are answered from a cache instead
+ * of calling the provider again. Requests are keyed on the prompt or messages,
+ * the model and the generation options.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  LMDriver,
+  GenerationOptions,
+  GenerationResult,
+  ChatMessage,
+  messagesToPrompt,
+  runChatDetailed,
+} from './base';
+
+/**
+ * A cached generation result
+ */
+export interface CacheEntry {
+  /**
+   * Cached result
+   */
+  result: GenerationResult;
+
+  /**
+   * Expiry time in milliseconds since the epoch; entries without one never expire
+   */
+  expiresAt?: number;
+}
+
+/**
+ * Storage for cache entries
+ */
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Everything that identifies a request, passed to the cache key function
+ */
+export interface CacheKeyRequest {
+  /**
+   * Model identifier
+   */
+  model: string;
+
+  /**
+   * Prompt, for `generate` calls
+   */
+  prompt?: string;
+
+  /**
+   * Messages, for `chat` calls
+   */
+  messages?: ChatMessage[];
+
+  /**
+   * Generation options of the call
+   */
+  options: GenerationOptions;
+}
+
+/**
+ * Cache configuration
+ */
+export interface CacheOptions {
+  /**
+   * Storage backend (default: in-memory LRU with 1000 entries)
+   */
+  backend?: CacheBackend;
+
+  /**
+   * Time to live of entries in milliseconds (default: no expiry)
+   */
+  ttlMs?: number;
+
+  /**
+   * Model identifier used in keys (default: the driver's `model`, or its class name)
+   */
+  model?: string;
+
+  /**
+   * Custom cache key function (default: SHA-256 of the request as JSON)
+   */
+  keyFn?: (request: CacheKeyRequest) => string;
+
+  /**
+   * Skip cache lookups; fresh results still overwrite stored entries (default: false)
+   */
+  bypass?: boolean;
+}
+
+/**
+ * Cache hit and miss counts
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * In-memory cache backend that evicts the least recently used entry when full
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of stored entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Cache backend storing one JSON file per entry in a directory
+ */
+export class DiskCacheBackend implements CacheBackend {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(key), 'utf8'));
+    } catch {
+      // Missing or unreadable entries are treated as misses
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => fs.rm(path.join(this.directory, file), { force: true }))
+    );
+  }
+
+  /**
+   * Keys are hashed so any key maps to a safe file name
+   */
+  private filePath(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+/**
+ * LM driver that serves repeated requests from a cache
+ */
+export class CachedLM implements LMDriver {
+  /**
+   * Skip cache lookups while true; fresh results still overwrite stored entries
+   */
+  public bypass: boolean;
+
+  private readonly backend: CacheBackend;
+  private stats: CacheStats = { hits: 0, misses: 0 };
+
+  constructor(
+    public readonly lm: LMDriver,
+    private readonly options: CacheOptions = {}
+  ) {
+    this.backend = options.backend ?? new MemoryCacheBackend();
+    this.bypass = options.bypass ?? false;
+  }
+
+  /**
+   * Model identifier used in cache keys
+   */
+  get model(): string {
+    const model = (this.lm as { model?: unknown }).model;
+    return this.options.model ?? (typeof model === 'string' ? model : this.lm.constructor.name);
+  }
+
+  async init(): Promise<void> {
+    await this.lm.init?.();
+  }
+
+  async cleanup(): Promise<void> {
+    await this.lm.cleanup?.();
+  }
+
+  async generate(prompt: string, options?: GenerationOptions): Promise<string> {
+    const result = await this.generateDetailed(prompt, options);
+    return result.text;
+  }
+
+  async generateDetailed(prompt: string, options?: GenerationOptions): Promise<GenerationResult> {
+    return this.cached({ prompt }, options, async () =>
+      this.lm.generateDetailed
+        ? this.lm.generateDetailed(prompt, options)
+        : { text: await this.lm.generate(prompt, options) }
+    );
+  }
+
+  async chat(messages: ChatMessage[], options?: GenerationOptions): Promise<string> {
+    const result = await this.chatDetailed(messages, options);
+    return result.text;
+  }
+
+  async chatDetailed(messages: ChatMessage[], options?: GenerationOptions): Promise<GenerationResult> {
+    return this.cached({ messages }, options, () => runChatDetailed(this.lm, messages, options));
+  }
+
+  /**
+   * Stream a response; cache hits are yielded as a single chunk
+   */
+  async *streamChat(messages: ChatMessage[], options?: GenerationOptions): AsyncGenerator<string> {
+    const key = this.keyFor({ messages }, options);
+    const hit = await this.lookup(key);
+    if (hit) {
+      yield hit.text;
+      return;
+    }
+
+    if (!this.lm.streamChat && !this.lm.stream) {
+      const result = await this.fetchAndStore(key, () => runChatDetailed(this.lm, messages, options));
+      yield result.text;
+      return;
+    }
+
+    let text = '';
+    const chunks = this.lm.streamChat
+      ? this.lm.streamChat(messages, options)
+      : this.lm.stream!(messagesToPrompt(messages), options);
+    for await (const chunk of chunks) {
+      text += chunk;
+      yield chunk;
+    }
+    await this.store(key, { text });
+  }
+
+  /**
+   * Get hit and miss counts
+   */
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Reset hit and miss counts
+   */
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0 };
+  }
+
+  /**
+   * Remove all cached entries
+   */
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+
+  /**
+   * Answer from the cache, or generate and store the result
+   */
+  private async cached(
+    request: Pick<CacheKeyRequest, 'prompt' | 'messages'>,
+    options: GenerationOptions | undefined,
+    generate: () => Promise<GenerationResult>
+  ): Promise<GenerationResult> {
+    const key = this.keyFor(request, options);
+    return (await this.lookup(key)) ?? this.fetchAndStore(key, generate);
+  }
+
+  private async fetchAndStore(
+    key: string,
+    generate: () => Promise<GenerationResult>
+  ): Promise<GenerationResult> {
+    const result = await generate();
+    await this.store(key, result);
+    return result;
+  }
+
+  /**
+   * Look up a live entry, counting the hit or miss
+   */
+  private async lookup(key: string): Promise<GenerationResult | undefined> {
+    if (this.bypass) {
+      this.stats.misses++;
+      return undefined;
+    }
+
+    const entry = await this.backend.get(key);
+    if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.backend.delete(key);
+    } else if (entry) {
+      this.stats.hits++;
+      return { ...entry.result, latencyMs: 0 };
+    }
+
+    this.stats.misses++;
+    return undefined;
+  }
+
+  private async store(key: string, result: GenerationResult): Promise<void> {
+    // Latency belongs to the original call, not to later cache hits
+    const cachedResult = { ...result };
+    delete cachedResult.latencyMs;
+    const entry: CacheEntry = { result: cachedResult };
+    if (this.options.ttlMs !== undefined) {
+      entry.expiresAt = Date.now() + this.options.ttlMs;
+    }
+    await this.backend.set(key, entry);
+  }
+
+  private keyFor(
+    request: Pick<CacheKeyRequest, 'prompt' | 'messages'>,
+    options: GenerationOptions = {}
+  ): string {
+    const keyRequest: CacheKeyRequest = { model: this.model, ...request, options };
+    if (this.options.keyFn) {
+      return this.options.keyFn(keyRequest);
+    }
+    return createHash('sha256').update(stableStringify(keyRequest)).digest('hex');
+  }
+}
+
+/**
+ * Wrap an LM driver with a response cache.
+ *
+ * @example
+ * configureLM(withCache(new OpenAILM({ apiKey }), { backend: new DiskCacheBackend('.dspy-cache') }));
+ */
+export function withCache(lm: LMDriver, options?: CacheOptions): CachedLM {
+  return new CachedLM(lm, options);
+}
+
+/**
+ * JSON serialization with sorted object keys, so equal options produce equal keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
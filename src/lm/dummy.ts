@@ -1,4 +1,19 @@
-import { LMDriver, GenerationOptions, LMError } from './base';
+import { LMDriver, GenerationOptions, GenerationResult, LMError } from './base';
+
+/**
+ * Options for DummyLM
+ */
+export interface DummyLMOptions {
+  /**
+   * Number of characters per chunk when streaming (default: 4)
+   */
+  chunkSize?: number;
+
+  /**
+   * Delay in milliseconds between streamed chunks (default: 0)
+   */
+  chunkDelayMs?: number;
+}
 
 /**
  * DummyLM provides a mock implementation of the LM interface.
@@ -7,9 +22,14 @@ import { LMDriver, GenerationOptions, LMError } from './base';
 export class DummyLM implements LMDriver {
   private initialized: boolean = false;
   private responses: Map<string, string>;
+  private options: Required<DummyLMOptions>;
 
-  constructor(customResponses?: Map<string, string>) {
+  constructor(customResponses?: Map<string, string>, options: DummyLMOptions = {}) {
     this.responses = customResponses || new Map();
+    this.options = {
+      chunkSize: Math.max(1, options.chunkSize ?? 4),
+      chunkDelayMs: options.chunkDelayMs ?? 0,
+    };
   }
 
   /**
@@ -37,6 +57,41 @@ export class DummyLM implements LMDriver {
     return this.generateDefaultResponse(prompt, options);
   }
 
+  /**
+   * Generate a response with estimated token usage.
+   * Token counts are approximated at four characters per token.
+   */
+  public async generateDetailed(
+    prompt: string,
+    options?: GenerationOptions
+  ): Promise<GenerationResult> {
+    const text = await this.generate(prompt, options);
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(text);
+
+    return {
+      text,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      finishReason: options?.maxTokens && completionTokens > options.maxTokens ? 'length' : 'stop',
+      model: 'dummy',
+    };
+  }
+
+  /**
+   * Stream the response in fixed-size chunks, simulating a streaming provider
+   */
+  public async *stream(prompt: string, options?: GenerationOptions): AsyncGenerator<string> {
+    const text = await this.generate(prompt, options);
+    const { chunkSize, chunkDelayMs } = this.options;
+
+    for (let i = 0; i < text.length; i += chunkSize) {
+      if (chunkDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+      }
+      yield text.slice(i, i + chunkSize);
+    }
+  }
+
   /**
    * Clean up any resources (no-op for DummyLM)
    */
@@ -66,3 +121,10 @@ export class DummyLM implements LMDriver {
     return `DummyLM response for prompt: "${prompt}" (limited to ${maxTokens} tokens)`;
   }
 }
+
+/**
+ * Roughly estimate the token count of a text
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -6,6 +6,10 @@
 
 export * from './base';
 export * from './dummy';
+export * from './cache';
 export * from './onnx';
 export * from './torch';
 export * from './providers';
+
+// The LM registry lives with the other settings in core/settings
+export { configureLM, getLM, withLM } from '../core/settings';
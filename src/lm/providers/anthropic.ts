@@ -4,7 +4,15 @@
  * Integrates with Anthropic's Claude API for text generation
  */
 
-import { LMDriver, GenerationOptions, LMError } from '../base';
+import {
+  LMDriver,
+  GenerationOptions,
+  GenerationResult,
+  FinishReason,
+  LMError,
+  ChatMessage,
+} from '../base';
+import { parseSSE } from './sse';
 
 /**
  * Anthropic API configuration
@@ -66,6 +74,13 @@ export class AnthropicLM implements LMDriver {
     };
   }
 
+  /**
+   * Model used for generation
+   */
+  get model(): string {
+    return this.config.model;
+  }
+
   /**
    * Initialize the LM driver
    */
@@ -89,6 +104,38 @@ export class AnthropicLM implements LMDriver {
     prompt: string,
     options?: GenerationOptions
   ): Promise<string> {
+    return this.chat([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Generate text completion with usage and stop reason
+   */
+  async generateDetailed(
+    prompt: string,
+    options?: GenerationOptions
+  ): Promise<GenerationResult> {
+    return this.chatDetailed([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Generate a chat completion. System messages are sent as the top-level
+   * `system` parameter, as the Messages API requires.
+   */
+  async chat(
+    messages: ChatMessage[],
+    options?: GenerationOptions
+  ): Promise<string> {
+    const result = await this.chatDetailed(messages, options);
+    return result.text;
+  }
+
+  /**
+   * Generate a chat completion with usage and stop reason
+   */
+  async chatDetailed(
+    messages: ChatMessage[],
+    options?: GenerationOptions
+  ): Promise<GenerationResult> {
     if (!this.initialized) {
       throw new LMError('LM not initialized. Call init() first.', 'NOT_INITIALIZED');
     }
@@ -99,8 +146,21 @@ export class AnthropicLM implements LMDriver {
     };
 
     try {
-      const response = await this.callAnthropic(prompt, mergedOptions);
-      return response.content[0]?.text || '';
+      const start = Date.now();
+      const response = await this.callAnthropic(messages, mergedOptions);
+
+      return {
+        text: response.content[0]?.text || '',
+        usage: response.usage && {
+          promptTokens: response.usage.input_tokens,
+          completionTokens: response.usage.output_tokens,
+          totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+        },
+        finishReason: this.mapStopReason(response.stop_reason),
+        model: response.model,
+        latencyMs: Date.now() - start,
+        raw: response,
+      };
     } catch (error) {
       throw new LMError(
         `Anthropic generation failed: ${error}`,
@@ -109,6 +169,57 @@ export class AnthropicLM implements LMDriver {
     }
   }
 
+  /**
+   * Stream text completion
+   */
+  async *stream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<string> {
+    yield* this.streamChat([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Stream a chat completion, yielding text deltas as they arrive
+   */
+  async *streamChat(
+    messages: ChatMessage[],
+    options?: GenerationOptions
+  ): AsyncGenerator<string> {
+    if (!this.initialized) {
+      throw new LMError('LM not initialized. Call init() first.', 'NOT_INITIALIZED');
+    }
+
+    const mergedOptions = {
+      ...this.config.defaultOptions,
+      ...options,
+    };
+
+    try {
+      const response = await this.request(messages, mergedOptions, true);
+      if (!response.body) {
+        throw new Error('response has no body');
+      }
+      for await (const event of parseSSE(response.body)) {
+        const payload = JSON.parse(event.data);
+        if (payload.type === 'message_stop') {
+          break;
+        }
+        if (payload.type === 'error') {
+          throw new Error(payload.error?.message ?? event.data);
+        }
+        if (payload.type === 'content_block_delta' && payload.delta?.text) {
+          yield payload.delta.text;
+        }
+      }
+    } catch (error) {
+      throw new LMError(
+        `Anthropic streaming failed: ${error}`,
+        'GENERATION_ERROR'
+      );
+    }
+  }
+
   /**
    * Cleanup resources
    */
@@ -116,31 +227,64 @@ export class AnthropicLM implements LMDriver {
     this.initialized = false;
   }
 
+  /**
+   * Normalize Anthropic stop reasons
+   */
+  private mapStopReason(reason?: string): FinishReason {
+    switch (reason) {
+      case 'end_turn':
+      case 'stop_sequence':
+        return 'stop';
+      case 'max_tokens':
+        return 'length';
+      case 'tool_use':
+        return 'tool_calls';
+      default:
+        return 'unknown';
+    }
+  }
+
   /**
    * Call Anthropic API
    */
   private async callAnthropic(
-    prompt: string,
+    messages: ChatMessage[],
     options: Partial<GenerationOptions>
   ): Promise<AnthropicResponse> {
+    const response = await this.request(messages, options, false);
+    return response.json();
+  }
+
+  /**
+   * Send a request to the Anthropic API, optionally asking for a streamed response
+   */
+  private async request(
+    messages: ChatMessage[],
+    options: Partial<GenerationOptions>,
+    stream: boolean
+  ): Promise<Response> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'x-api-key': this.config.apiKey,
       'anthropic-version': '2023-06-01',
     };
 
+    const system = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
     const body = {
       model: this.config.model,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+      system: system || undefined,
+      messages: messages
+        .filter((m) => m.role !== 'system')
+        .map((m) => ({ role: m.role, content: m.content })),
       temperature: options.temperature ?? 0.7,
       max_tokens: options.maxTokens ?? 500,
       top_p: options.topP,
       stop_sequences: options.stopSequences,
+      stream: stream || undefined,
     };
 
     const response = await fetch(`${this.config.endpoint}/messages`, {
@@ -156,6 +300,6 @@ export class AnthropicLM implements LMDriver {
       );
     }
 
-    return response.json();
+    return response;
   }
 }
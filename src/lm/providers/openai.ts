@@ -4,7 +4,15 @@
  * Integrates with OpenAI's API for text generation
  */
 
-import { LMDriver, GenerationOptions, LMError } from '../base';
+import {
+  LMDriver,
+  GenerationOptions,
+  GenerationResult,
+  FinishReason,
+  LMError,
+  ChatMessage,
+} from '../base';
+import { parseSSE } from './sse';
 
 /**
  * OpenAI API configuration
@@ -78,6 +86,13 @@ export class OpenAILM implements LMDriver {
     };
   }
 
+  /**
+   * Model used for generation
+   */
+  get model(): string {
+    return this.config.model;
+  }
+
   /**
    * Initialize the LM driver
    */
@@ -110,6 +125,37 @@ export class OpenAILM implements LMDriver {
     prompt: string,
     options?: GenerationOptions
   ): Promise<string> {
+    return this.chat([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Generate text completion with usage and finish reason
+   */
+  async generateDetailed(
+    prompt: string,
+    options?: GenerationOptions
+  ): Promise<GenerationResult> {
+    return this.chatDetailed([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Generate a chat completion from system, user and assistant messages
+   */
+  async chat(
+    messages: ChatMessage[],
+    options?: GenerationOptions
+  ): Promise<string> {
+    const result = await this.chatDetailed(messages, options);
+    return result.text;
+  }
+
+  /**
+   * Generate a chat completion with usage and finish reason
+   */
+  async chatDetailed(
+    messages: ChatMessage[],
+    options?: GenerationOptions
+  ): Promise<GenerationResult> {
     if (!this.initialized) {
       throw new LMError('LM not initialized. Call init() first.', 'NOT_INITIALIZED');
     }
@@ -120,8 +166,22 @@ export class OpenAILM implements LMDriver {
     };
 
     try {
-      const response = await this.callOpenAI(prompt, mergedOptions);
-      return response.choices[0]?.message?.content || '';
+      const start = Date.now();
+      const response = await this.callOpenAI(messages, mergedOptions);
+      const choice = response.choices[0];
+
+      return {
+        text: choice?.message?.content || '',
+        usage: response.usage && {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        },
+        finishReason: this.mapFinishReason(choice?.finish_reason),
+        model: response.model,
+        latencyMs: Date.now() - start,
+        raw: response,
+      };
     } catch (error) {
       throw new LMError(
         `OpenAI generation failed: ${error}`,
@@ -130,6 +190,54 @@ export class OpenAILM implements LMDriver {
     }
   }
 
+  /**
+   * Stream text completion
+   */
+  async *stream(
+    prompt: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<string> {
+    yield* this.streamChat([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Stream a chat completion, yielding content deltas as they arrive
+   */
+  async *streamChat(
+    messages: ChatMessage[],
+    options?: GenerationOptions
+  ): AsyncGenerator<string> {
+    if (!this.initialized) {
+      throw new LMError('LM not initialized. Call init() first.', 'NOT_INITIALIZED');
+    }
+
+    const mergedOptions = {
+      ...this.config.defaultOptions,
+      ...options,
+    };
+
+    try {
+      const response = await this.request(messages, mergedOptions, true);
+      if (!response.body) {
+        throw new Error('response has no body');
+      }
+      for await (const event of parseSSE(response.body)) {
+        if (event.data === '[DONE]') {
+          break;
+        }
+        const delta = JSON.parse(event.data).choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    } catch (error) {
+      throw new LMError(
+        `OpenAI streaming failed: ${error}`,
+        'GENERATION_ERROR'
+      );
+    }
+  }
+
   /**
    * Cleanup resources
    */
@@ -141,9 +249,21 @@ export class OpenAILM implements LMDriver {
    * Call OpenAI API
    */
   private async callOpenAI(
-    prompt: string,
+    messages: ChatMessage[],
     options: Partial<GenerationOptions>
   ): Promise<OpenAIResponse> {
+    const response = await this.request(messages, options, false);
+    return response.json();
+  }
+
+  /**
+   * Send a request to the OpenAI API, optionally asking for a streamed response
+   */
+  private async request(
+    messages: ChatMessage[],
+    options: Partial<GenerationOptions>,
+    stream: boolean
+  ): Promise<Response> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       Authorization: `Bearer ${this.config.apiKey}`,
@@ -155,16 +275,12 @@ export class OpenAILM implements LMDriver {
 
     const body = {
       model: this.config.model,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+      messages,
       temperature: options.temperature ?? 0.7,
       max_tokens: options.maxTokens ?? 500,
       top_p: options.topP,
       stop: options.stopSequences,
+      stream: stream || undefined,
     };
 
     const response = await fetch(`${this.config.endpoint}/chat/completions`, {
@@ -180,7 +296,24 @@ export class OpenAILM implements LMDriver {
       );
     }
 
-    return response.json();
+    return response;
+  }
+
+  /**
+   * Normalize OpenAI finish reasons
+   */
+  private mapFinishReason(reason?: string): FinishReason {
+    switch (reason) {
+      case 'stop':
+      case 'length':
+      case 'content_filter':
+      case 'tool_calls':
+        return reason;
+      case 'function_call':
+        return 'tool_calls';
+      default:
+        return 'unknown';
+    }
   }
 
   /**
@@ -189,7 +322,7 @@ export class OpenAILM implements LMDriver {
   private async testConnection(): Promise<void> {
     try {
       // Make a minimal test call
-      await this.callOpenAI('test', { maxTokens: 1 });
+      await this.callOpenAI([{ role: 'user', content: 'test' }], { maxTokens: 1 });
     } catch (error) {
       // Even if the test call fails, as long as we get a response from the API, we're good
       // This prevents initialization failures due to rate limits or minor errors
@@ -0,0 +1,88 @@
+/**
+ * Server-Sent Events
+ *
+ * Minimal parser for the `text/event-stream` responses returned by
+ * streaming provider APIs.
+ */
+
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+  /**
+   * Event type, when the server sets one
+   */
+  event?: string;
+
+  /**
+   * Event payload; multiple `data:` lines are joined with newlines
+   */
+  data: string;
+}
+
+/**
+ * Parse a response body into server-sent events
+ */
+export async function* parseSSE(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) {
+          yield event;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const event = parseEvent(buffer + decoder.decode());
+    if (event) {
+      yield event;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse one event block; returns null for blocks without data (e.g. comments)
+ */
+function parseEvent(block: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line === '' || line.startsWith(':')) {
+      continue;
+    }
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  if (data.length === 0) {
+    return null;
+  }
+  return event ? { event, data: data.join('\n') } : { data: data.join('\n') };
+}
@@ -1,23 +1,45 @@
-import { Module } from '../core/module';
+import { Module, StreamUpdate } from '../core/module';
 import { Signature } from '../core/signature';
-import { getLM } from '../index';
+import { validateFieldValue } from '../core/fields';
+import { TypedSignature, isTypedSignature, assertMatchesSchema } from '../core/typed-signature';
+import { Adapter } from '../adapters/base';
+import { LMDriver, GenerationOptions, ChatMessage, runChat } from '../lm/base';
 
 /**
  * PredictModule implements a simple single-step prediction module.
  * It formats a prompt, calls the LM, and parses the response.
+ * Without a custom prompt template, the prompt is built by the module's adapter.
+ * With one, the template renders each demo input and the adapter its output; the
+ * signature instructions are not part of the prompt.
  */
 export class PredictModule<TInput extends Record<string, any>, TOutput extends Record<string, any>> extends Module<TInput, TOutput> {
+  private readonly hasCustomTemplate: boolean;
+
   constructor(options: {
     name: string;
-    signature: Signature;
-    promptTemplate: (input: TInput) => string;
+    signature: Signature | TypedSignature<TInput, TOutput>;
+    promptTemplate?: (input: TInput) => string;
+    adapter?: Adapter;
+    lm?: LMDriver;
+    generationOptions?: GenerationOptions;
   }) {
     super({
       name: options.name,
       signature: options.signature,
       promptTemplate: options.promptTemplate,
-      strategy: 'Predict'
+      strategy: 'Predict',
+      adapter: options.adapter,
+      lm: options.lm,
+      generationOptions: options.generationOptions
     });
+    this.hasCustomTemplate = options.promptTemplate !== undefined;
+  }
+
+  /**
+   * A custom prompt template replaces the adapter's instructions
+   */
+  public rendersInstructions(): boolean {
+    return !this.hasCustomTemplate;
   }
 
   /**
@@ -28,14 +50,14 @@ export class PredictModule<TInput extends Record<string, any>, TOutput extends R
       // Validate input against signature
       this.validateInput(input);
 
-      // Format the prompt using the template
-      const prompt = this.promptTemplate(input);
+      // Format the messages using the template or the adapter
+      const messages = this.buildMessages(input);
 
-      // Get the global LM instance
-      const lm = getLM();
+      // Get the module's LM, or the configured one
+      const lm = this.resolveLM();
 
       // Generate response from LM
-      const response = await lm.generate(prompt);
+      const response = await runChat(lm, messages, this.resolveGenerationOptions());
 
       // Parse the response into structured output
       const output = this.parseResponse(response);
@@ -43,6 +65,7 @@ export class PredictModule<TInput extends Record<string, any>, TOutput extends R
       // Validate output against signature
       this.validateOutput(output);
 
+      this.recordTrace(input, output, messages);
       return output;
     } catch (error: any) {
       throw new Error(`Error in ${this.name}: ${error.message}`);
@@ -50,27 +73,59 @@ export class PredictModule<TInput extends Record<string, any>, TOutput extends R
   }
 
   /**
-   * Parse LM response into structured output
-   * This is a basic implementation - extend for specific needs
+   * Run the module, yielding partial outputs as the LM streams its response.
+   * The final update holds the validated output, which is also the generator's return value.
    */
-  private parseResponse(response: string): TOutput {
+  public async *stream(input: TInput): AsyncGenerator<StreamUpdate<TOutput>, TOutput> {
     try {
-      // For MVP, attempt to parse as JSON
-      // In practice, you might need more sophisticated parsing
-      return JSON.parse(response) as TOutput;
-    } catch {
-      // If JSON parsing fails, return response as-is if output signature has a single string field
-      if (this.signature.outputs.length === 1 && this.signature.outputs[0].type === 'string') {
-        return { [this.signature.outputs[0].name]: response } as TOutput;
+      this.validateInput(input);
+      const messages = this.buildMessages(input);
+      const output = yield* this.streamOutput(this.resolveLM(), messages, this.resolveGenerationOptions());
+      this.recordTrace(input, output, messages);
+      return output;
+    } catch (error: any) {
+      throw new Error(`Error in ${this.name}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Format the messages using the adapter, or the template with each demo as a
+   * user/assistant pair before the templated input
+   */
+  private buildMessages(input: TInput): ChatMessage[] {
+    const adapter = this.resolveAdapter();
+    if (!this.hasCustomTemplate) {
+      return adapter.formatMessages(this.signature, this.demos, input);
+    }
+
+    const messages: ChatMessage[] = [];
+    for (const demo of this.demos) {
+      if (demo.output === undefined) {
+        continue;
       }
-      throw new Error('Failed to parse LM response');
+      messages.push({ role: 'user', content: this.promptTemplate(demo.input as TInput) });
+      messages.push({ role: 'assistant', content: adapter.formatOutputs(this.signature, demo.output) });
     }
+    messages.push({ role: 'user', content: this.promptTemplate(input) });
+    return messages;
+  }
+
+  /**
+   * Parse LM response into structured output using the module's adapter
+   */
+  private parseResponse(response: string): TOutput {
+    return this.resolveAdapter().parse(this.signature, response) as TOutput;
   }
 
   /**
    * Validate input against module signature
    */
   protected validateInput(input: TInput): void {
+    if (isTypedSignature(this.signature)) {
+      assertMatchesSchema(this.signature.inputSchema, input, 'input');
+      return;
+    }
+
     for (const field of this.signature.inputs) {
       const value = input[field.name];
       
@@ -78,9 +133,10 @@ export class PredictModule<TInput extends Record<string, any>, TOutput extends R
         throw new Error(`Missing required input field: ${field.name}`);
       }
 
-      if (value !== undefined && typeof value !== field.type) {
+      const issue = value !== undefined ? validateFieldValue(field, value, field.name) : null;
+      if (issue) {
         throw new Error(
-          `Invalid type for input field ${field.name}. Expected ${field.type}, got ${typeof value}`
+          `Invalid type for input field ${issue.path}. Expected ${issue.expected}, got ${issue.received}`
         );
       }
     }
@@ -90,6 +146,11 @@ export class PredictModule<TInput extends Record<string, any>, TOutput extends R
    * Validate output against module signature
    */
   protected validateOutput(output: TOutput): void {
+    if (isTypedSignature(this.signature)) {
+      assertMatchesSchema(this.signature.outputSchema, output, 'output');
+      return;
+    }
+
     for (const field of this.signature.outputs) {
       const value = output[field.name];
       
@@ -97,9 +158,10 @@ export class PredictModule<TInput extends Record<string, any>, TOutput extends R
         throw new Error(`Missing required output field: ${field.name}`);
       }
 
-      if (value !== undefined && typeof value !== field.type) {
+      const issue = value !== undefined ? validateFieldValue(field, value, field.name) : null;
+      if (issue) {
         throw new Error(
-          `Invalid type for output field ${field.name}. Expected ${field.type}, got ${typeof value}`
+          `Invalid type for output field ${issue.path}. Expected ${issue.expected}, got ${issue.received}`
         );
       }
     }
@@ -10,8 +10,10 @@
  */
 
 import { Module } from '../core/module';
-import { Signature } from '../core/signature';
-import { getLM } from '../lm';
+import { Signature, describeFieldType } from '../core/signature';
+import { coerceFieldValue } from '../core/fields';
+import { Adapter } from '../adapters/base';
+import { LMDriver, GenerationOptions, runChat, ChatMessage } from '../lm';
 
 /**
  * Tool that can be used by the ReAct agent
@@ -76,6 +78,12 @@ export interface ReActConfig {
   tools: Tool[];
   maxIterations?: number;
   strategy?: 'ReAct';
+  adapter?: Adapter;
+  lm?: LMDriver;
+  /**
+   * Options applied to both thought and action calls, overriding their defaults
+   */
+  generationOptions?: GenerationOptions;
 }
 
 /**
@@ -94,8 +102,12 @@ export class ReAct<
   constructor(config: ReActConfig) {
     super({
       name: config.name,
-      signature: config.signature,
+      // Copied, so extending the outputs leaves the caller's signature unchanged
+      signature: { ...config.signature },
       strategy: 'ReAct',
+      adapter: config.adapter,
+      lm: config.lm,
+      generationOptions: config.generationOptions,
     });
 
     this.tools = new Map(config.tools.map((t) => [t.name.toLowerCase(), t]));
@@ -115,21 +127,28 @@ export class ReAct<
     const hasSteps = this.signature.outputs.some((f) => f.name === 'steps');
 
     if (!hasReasoning) {
-      this.signature.outputs.unshift({
-        name: 'reasoning',
-        type: 'string',
-        description: 'Complete reasoning trace',
-        required: true,
-      });
+      this.signature.outputs = [
+        {
+          name: 'reasoning',
+          type: 'string',
+          description: 'Complete reasoning trace',
+          required: true,
+        },
+        ...this.signature.outputs,
+      ];
     }
 
     if (!hasSteps) {
-      this.signature.outputs.unshift({
-        name: 'steps',
-        type: 'object',
-        description: 'ReAct steps taken',
-        required: true,
-      });
+      this.signature.outputs = [
+        {
+          name: 'steps',
+          type: 'array',
+          items: { type: 'object' },
+          description: 'ReAct steps taken',
+          required: true,
+        },
+        ...this.signature.outputs,
+      ];
     }
   }
 
@@ -143,10 +162,7 @@ export class ReAct<
     this.validateInput(input);
 
     // Get language model
-    const lm = getLM();
-    if (!lm) {
-      throw new Error('No language model configured. Call configureLM() first.');
-    }
+    const lm = this.resolveLM();
 
     const steps: ReActStep[] = [];
     let iteration = 0;
@@ -157,11 +173,12 @@ export class ReAct<
       iteration++;
 
       // Generate thought
-      const thoughtPrompt = this.buildThoughtPrompt(input, steps);
-      const thoughtResponse = await lm.generate(thoughtPrompt, {
-        temperature: 0.7,
-        maxTokens: 200,
-      });
+      const thoughtMessages = this.buildThoughtMessages(input, steps);
+      const thoughtResponse = await runChat(
+        lm,
+        thoughtMessages,
+        this.resolveGenerationOptions({ temperature: 0.7, maxTokens: 200 })
+      );
 
       const thought = this.extractThought(thoughtResponse);
       steps.push({
@@ -172,19 +189,20 @@ export class ReAct<
 
       // Check if we have a final answer
       const answerMatch = thought.match(
-        /(?:final answer|answer):\s*(.+)/i
+        /(?:final answer|answer):\s*([\s\S]+)/i
       );
       if (answerMatch) {
-        finalAnswer = this.parseAnswer(answerMatch[1], steps);
+        finalAnswer = this.parseAnswer(answerMatch[1]);
         break;
       }
 
       // Generate action
-      const actionPrompt = this.buildActionPrompt(input, steps);
-      const actionResponse = await lm.generate(actionPrompt, {
-        temperature: 0.3,
-        maxTokens: 100,
-      });
+      const actionMessages = this.buildActionMessages(steps);
+      const actionResponse = await runChat(
+        lm,
+        actionMessages,
+        this.resolveGenerationOptions({ temperature: 0.3, maxTokens: 100 })
+      );
 
       const action = this.extractAction(actionResponse);
       if (!action) {
@@ -225,87 +243,111 @@ export class ReAct<
     // Validate output
     this.validateOutput(output);
 
+    this.recordTrace(input, output as TOutput & { reasoning: string; steps: ReActStep[] });
     return output as TOutput & { reasoning: string; steps: ReActStep[] };
   }
 
   /**
-   * Build thought generation prompt
+   * Build thought generation messages: the task, tools and demos as the system turn,
+   * the input and previous steps as the user turn
    */
-  private buildThoughtPrompt(
+  private buildThoughtMessages(
     input: TInput,
     steps: ReActStep[]
-  ): string {
-    const parts: string[] = [];
+  ): ChatMessage[] {
+    const system: string[] = [];
 
-    parts.push('You are a ReAct agent that alternates between thinking and acting.');
-    parts.push('');
+    system.push('You are a ReAct agent that alternates between thinking and acting.');
+    system.push('');
 
     // Task description
-    parts.push('Task:');
-    parts.push(
+    system.push('Task:');
+    system.push(
       this.signature.outputs
         .filter((o) => !['reasoning', 'steps'].includes(o.name))
-        .map((o) => `- ${o.name}: ${o.description || 'provide this output'}`)
+        .map(
+          (o) => `- ${o.name} (${describeFieldType(o)}): ${o.description || 'provide this output'}`
+        )
         .join('\n')
     );
-    parts.push('');
+    system.push('');
 
     // Available tools
-    parts.push('Available tools:');
+    system.push('Available tools:');
     for (const tool of this.tools.values()) {
-      parts.push(`- ${tool.name}: ${tool.description}`);
+      system.push(`- ${tool.name}: ${tool.description}`);
+    }
+    system.push('');
+
+    const adapter = this.resolveAdapter();
+    const answerSignature = this.getAnswerSignature();
+    const answerFormat = adapter.formatOutputRequest(answerSignature);
+    system.push(`When you give your final answer, format it as follows. ${answerFormat}`);
+
+    // Demonstrations of inputs and their final answers
+    const demos = this.demos.filter((demo) => demo.output !== undefined);
+    if (demos.length > 0) {
+      system.push('');
+      system.push('Examples:');
+      for (const demo of demos) {
+        system.push('');
+        system.push(adapter.formatInputs(answerSignature, demo.input));
+        system.push(`Final Answer: ${adapter.formatOutputs(answerSignature, demo.output)}`);
+      }
     }
-    parts.push('');
+
+    const user: string[] = [];
 
     // Input
-    parts.push('Input:');
+    user.push('Input:');
     for (const field of this.signature.inputs) {
-      parts.push(`${field.name}: ${JSON.stringify(input[field.name])}`);
+      user.push(`${field.name}: ${JSON.stringify(input[field.name])}`);
     }
-    parts.push('');
+    user.push('');
 
     // Previous steps
     if (steps.length > 0) {
-      parts.push('Previous steps:');
+      user.push('Previous steps:');
       for (const step of steps.slice(-6)) {
         // Last 6 steps
-        parts.push(`${step.type.toUpperCase()}: ${step.content}`);
+        user.push(`${step.type.toUpperCase()}: ${step.content}`);
       }
-      parts.push('');
+      user.push('');
     }
 
-    parts.push('Think about what to do next. If you have enough information, provide your final answer starting with "Final Answer:". Otherwise, explain what you need to do.');
+    user.push('Think about what to do next. If you have enough information, provide your final answer starting with "Final Answer:". Otherwise, explain what you need to do.');
 
-    return parts.join('\n');
+    return [
+      { role: 'system', content: system.join('\n') },
+      { role: 'user', content: user.join('\n') },
+    ];
   }
 
   /**
-   * Build action generation prompt
+   * Build action generation messages
    */
-  private buildActionPrompt(
-    input: TInput,
-    steps: ReActStep[]
-  ): string {
-    const parts: string[] = [];
+  private buildActionMessages(steps: ReActStep[]): ChatMessage[] {
+    const system: string[] = [];
 
-    parts.push('Based on your thought, what action should you take?');
-    parts.push('');
+    system.push('Based on your thought, what action should you take?');
+    system.push('');
 
-    parts.push('Available tools:');
+    system.push('Available tools:');
     for (const tool of this.tools.values()) {
-      parts.push(`- ${tool.name}: ${tool.description}`);
+      system.push(`- ${tool.name}: ${tool.description}`);
     }
-    parts.push('');
+    system.push('');
 
-    const lastThought = steps[steps.length - 1]?.content || '';
-    parts.push(`Your last thought: ${lastThought}`);
-    parts.push('');
+    system.push('Choose a tool and provide input in this format:');
+    system.push('Tool: <tool_name>');
+    system.push('Input: <input_for_tool>');
 
-    parts.push('Choose a tool and provide input in this format:');
-    parts.push('Tool: <tool_name>');
-    parts.push('Input: <input_for_tool>');
+    const lastThought = steps[steps.length - 1]?.content || '';
 
-    return parts.join('\n');
+    return [
+      { role: 'system', content: system.join('\n') },
+      { role: 'user', content: `Your last thought: ${lastThought}` },
+    ];
   }
 
   /**
@@ -370,43 +412,26 @@ export class ReAct<
   }
 
   /**
-   * Parse final answer from thought
+   * Parse final answer from thought using the module's adapter
    */
-  private parseAnswer(
-    answerText: string,
-    steps: ReActStep[]
-  ): Record<string, any> {
-    const result: Record<string, any> = {};
-
-    // Try to extract structured data
-    for (const field of this.signature.outputs) {
-      if (['reasoning', 'steps'].includes(field.name)) continue;
-
-      // Look for field in answer
-      const pattern = new RegExp(`${field.name}\\s*[:=]\\s*([^\\n]+)`, 'i');
-      const match = answerText.match(pattern);
-
-      if (match) {
-        let value = match[1].trim().replace(/^["']|["']$/g, '');
-
-        // Type conversion
-        if (field.type === 'number') {
-          result[field.name] = parseFloat(value) || 0;
-        } else if (field.type === 'boolean') {
-          result[field.name] = value.toLowerCase() === 'true';
-        } else {
-          result[field.name] = value;
-        }
-      } else {
-        // Use answer text as primary field
-        if (this.signature.outputs.indexOf(field) === 2) {
-          // First output field after reasoning and steps
-          result[field.name] = answerText.trim();
-        }
-      }
+  private parseAnswer(answerText: string): Record<string, any> {
+    try {
+      return this.resolveAdapter().parse(this.getAnswerSignature(), answerText);
+    } catch {
+      // Unstructured answer: use it as the primary output field
+      const primaryField = this.getAnswerSignature().outputs[0];
+      return { [primaryField.name]: coerceFieldValue(primaryField, answerText) };
     }
+  }
 
-    return result;
+  /**
+   * Signature of the final answer, without the ReAct trace fields
+   */
+  private getAnswerSignature(): Signature {
+    return {
+      ...this.signature,
+      outputs: this.signature.outputs.filter((f) => !['reasoning', 'steps'].includes(f.name)),
+    };
   }
 
   /**
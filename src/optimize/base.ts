@@ -2,17 +2,25 @@
  * Base classes and types for DSPy.ts optimizers
  */
 
+import * as fs from 'fs';
 import { Module } from '../core/module';
 import { Pipeline } from '../core/pipeline';
+import { Example, Prediction, toOutputs } from '../core/example';
 
 /**
- * Metric function type for evaluating program outputs
+ * Score returned by a metric: a number in [0, 1], or a boolean counted as 1 or 0
+ */
+export type MetricScore = number | boolean;
+
+/**
+ * Metric function type for evaluating program outputs.
+ * Metrics that call an LM return a promise.
  */
 export type MetricFunction<TInput = any, TOutput = any> = (
   input: TInput,
   output: TOutput,
   expected?: TOutput
-) => number;
+) => MetricScore | Promise<MetricScore>;
 
 /**
  * Base optimizer configuration
@@ -31,12 +39,19 @@ export interface TrainingExample<TInput = any, TOutput = any> {
   output?: TOutput;
 }
 
+/**
+ * Training data accepted by optimizers: plain training examples, whose labels may be a
+ * `Prediction`, or `Example`s with marked inputs
+ */
+export type TrainingData<TInput = any, TOutput = any> = TrainingExample<TInput, TOutput | Prediction> | Example;
+
 /**
  * Base class for all DSPy.ts optimizers
  */
 export abstract class Optimizer<TInput = any, TOutput = any> {
   protected config: Required<OptimizerConfig>;
   protected metric: MetricFunction<TInput, TOutput>;
+  protected compiledProgram: Module<any, any> | null = null;
 
   constructor(metric: MetricFunction<TInput, TOutput>, config: OptimizerConfig = {}) {
     this.metric = metric;
@@ -53,18 +68,46 @@ export abstract class Optimizer<TInput = any, TOutput = any> {
    */
   abstract compile(
     program: Module<any, any> | Pipeline,
-    trainset: TrainingExample<TInput, TOutput>[]
+    trainset: TrainingData<TInput, TOutput>[]
   ): Promise<Module<any, any> | Pipeline>;
 
   /**
-   * Save the optimized program to a file
+   * Save the state of the last compiled program to a JSON file
+   * @param saveFieldMeta Also save field types and descriptions
+   */
+  save(path: string, saveFieldMeta = false): void {
+    if (!this.compiledProgram) {
+      throw new Error('No optimized program to save. Run compile() first.');
+    }
+    const state = this.compiledProgram.saveState({ fieldMeta: saveFieldMeta });
+    fs.writeFileSync(path, JSON.stringify(state, null, 2));
+  }
+
+  /**
+   * Load state saved with `save` into a program, or into the last compiled program
+   * @returns The program the state was loaded into
    */
-  abstract save(path: string, saveFieldMeta?: boolean): void;
+  load(path: string, program?: Module<any, any>): Module<any, any> {
+    const target = program ?? this.compiledProgram;
+    if (!target) {
+      throw new Error('No program to load into. Pass the program or run compile() first.');
+    }
+    target.loadState(JSON.parse(fs.readFileSync(path, 'utf8')));
+    this.compiledProgram = target;
+    return target;
+  }
 
   /**
-   * Load an optimized program from a file
+   * Run the metric, waiting for async metrics, and return the score as a number.
+   * Outputs given as `Prediction`s reach the metric as plain field values.
    */
-  abstract load(path: string): void;
+  protected async score(
+    input: TInput,
+    output: TOutput | Prediction,
+    expected?: TOutput | Prediction
+  ): Promise<number> {
+    return Number(await this.metric(input, toOutputs(output), toOutputs(expected)));
+  }
 
   protected log(message: string) {
     if (this.config.debug) {
@@ -3,10 +3,11 @@
  */
 
 import { Module } from '../core/module';
-import { Pipeline } from '../core/pipeline';
-import { Optimizer, OptimizerConfig, TrainingExample, MetricFunction } from './base';
-import { getLM } from '../index';
+import { Program } from '../core/program';
+import { Optimizer, OptimizerConfig, TrainingExample, TrainingData, MetricFunction } from './base';
+import { toTrainingExample } from '../core/example';
 import { Signature } from '../core/signature';
+import { withTrace } from '../core/settings';
 
 /**
  * Configuration for BootstrapFewShot optimizer
@@ -15,36 +16,28 @@ export interface BootstrapConfig extends OptimizerConfig {
   maxLabeledDemos?: number;
   maxBootstrappedDemos?: number;
   minScore?: number;
+
+  /**
+   * Program that produces bootstrapped demos, e.g. a copy of the student bound to a stronger
+   * LM (default: the program being compiled). Its predictors must have the same names as the
+   * student's.
+   */
+  teacher?: Module<any, any>;
 }
 
 /**
- * Optimized module with few-shot demonstrations
+ * Demonstrations gathered for a compilation
  */
-class OptimizedModule<TInput extends Record<string, any>, TOutput extends Record<string, any>> extends Module<TInput, TOutput> {
-  constructor(
-    name: string,
-    signature: Signature,
-    promptTemplate: (input: TInput) => string
-  ) {
-    super({
-      name,
-      signature,
-      promptTemplate,
-      strategy: 'Predict'
-    });
-  }
-
-  async run(input: TInput): Promise<TOutput> {
-    this.validateInput(input);
-    const lm = getLM();
-
-    const prompt = this.promptTemplate(input);
-    const response = await lm.generate(prompt);
-    const output = JSON.parse(response) as TOutput;
+interface GeneratedDemos {
+  /**
+   * Labeled training examples, used as program-level demos
+   */
+  labeled: TrainingExample[];
 
-    this.validateOutput(output);
-    return output;
-  }
+  /**
+   * Bootstrapped demos per predictor name, taken from successful teacher runs
+   */
+  bootstrapped: Map<string, TrainingExample[]>;
 }
 
 /**
@@ -54,11 +47,13 @@ export class BootstrapFewShot<
   TInput extends Record<string, any>,
   TOutput extends Record<string, any>
 > extends Optimizer<TInput, TOutput> {
-  protected config: Required<BootstrapConfig>;
-  private optimizedProgram: OptimizedModule<TInput, TOutput> | null = null;
+  protected config: Required<Omit<BootstrapConfig, 'teacher'>>;
+  private readonly teacher?: Module<any, any>;
 
   constructor(metric: MetricFunction<TInput, TOutput>, config: BootstrapConfig = {}) {
     super(metric, config);
+    const { teacher, ...options } = config;
+    this.teacher = teacher;
     this.config = {
       maxIterations: 10,
       numThreads: 1,
@@ -66,117 +61,121 @@ export class BootstrapFewShot<
       maxLabeledDemos: 4,
       maxBootstrappedDemos: 4,
       minScore: 0.7,
-      ...config
+      ...options
     };
   }
 
   /**
-   * Generate demonstrations using the teacher model
+   * Collect labeled demos, then run the teacher on the remaining examples. When a run
+   * passes the metric, every predictor call traced during it becomes a demo for that
+   * predictor.
    */
   private async generateDemonstrations(
     program: Module<TInput, TOutput>,
     trainset: TrainingExample<TInput, TOutput>[]
-  ): Promise<TrainingExample<TInput, TOutput>[]> {
-    const demos: TrainingExample<TInput, TOutput>[] = [];
-
-    // First, add labeled examples from trainset
-    const labeledDemos = trainset
+  ): Promise<GeneratedDemos> {
+    const labeled = trainset
       .filter(ex => ex.output !== undefined)
       .slice(0, this.config.maxLabeledDemos);
-    demos.push(...labeledDemos);
+    const bootstrapped = new Map<string, TrainingExample[]>();
 
-    // Then, generate bootstrapped examples
-    const unlabeledExamples = trainset
-      .filter(ex => ex.output === undefined)
-      .slice(0, this.config.maxBootstrappedDemos);
+    const teacher = this.teacher ?? program;
+    const names = new Map(teacher.namedPredictors().map(([name, predictor]) => [predictor, name]));
+    let successes = 0;
+
+    for (const example of trainset) {
+      if (successes >= this.config.maxBootstrappedDemos) {
+        break;
+      }
+      if (labeled.includes(example)) {
+        continue;
+      }
 
-    for (const example of unlabeledExamples) {
       try {
-        // Run the program to generate output
-        const output = await program.run(example.input);
-
-        // Evaluate the output
-        const score = this.metric(example.input, output);
-        if (score >= this.config.minScore) {
-          demos.push({
-            input: example.input,
-            output
-          });
+        const { result: output, trace } = await withTrace(() => teacher.run(example.input));
+        const score = await this.score(example.input, output, example.output);
+        if (score < this.config.minScore) {
+          continue;
+        }
+        successes++;
+
+        // A single module is its own predictor, whether or not it records traces
+        const calls = teacher instanceof Program
+          ? trace.map(entry => ({ name: names.get(entry.module), input: entry.input, output: entry.output }))
+          : [{ name: 'self', input: example.input, output }];
+        for (const { name, input, output: callOutput } of calls) {
+          if (name !== undefined) {
+            bootstrapped.set(name, [...(bootstrapped.get(name) ?? []), { input, output: callOutput }]);
+          }
         }
       } catch (err) {
         this.log(`Error generating demonstration: ${err}`);
-        continue;
       }
     }
 
-    return demos;
+    return { labeled, bootstrapped };
   }
 
   /**
-   * Compile a program with bootstrap few-shot optimization
+   * Compile a program with bootstrap few-shot optimization.
+   * Returns a copy of the program whose predictors hold the demonstrations: labeled
+   * examples that cover a predictor's fields, then the demos bootstrapped for it.
    */
   async compile(
     program: Module<TInput, TOutput>,
-    trainset: TrainingExample<TInput, TOutput>[]
+    trainset: TrainingData<TInput, TOutput>[]
   ): Promise<Module<TInput, TOutput>> {
     this.log('Starting bootstrap few-shot optimization');
 
     // Generate demonstrations
-    const demos = await this.generateDemonstrations(program, trainset);
-    this.log(`Generated ${demos.length} demonstrations`);
-
-    // Create optimized module by updating prompt template
-    this.optimizedProgram = new OptimizedModule(
-      program.name,
-      program.signature,
-      (input: TInput) => {
-        const demoText = demos.map(demo => `Example:
-Input: ${JSON.stringify(demo.input)}
-Expected Output: ${JSON.stringify(demo.output)}`).join('\n\n');
-
-        return `${demoText}\n\nAnalyze the following input and respond in JSON format:\nInput: ${JSON.stringify(input)}\n\nResponse:`;
-      }
-    );
+    const examples = trainset.map(example => toTrainingExample<TInput, TOutput>(example));
+    const { labeled, bootstrapped } = await this.generateDemonstrations(program, examples);
+
+    const compiled = program.clone();
+    const isProgram = compiled instanceof Program;
+    for (const [name, predictor] of compiled.namedPredictors()) {
+      predictor.demos = [
+        ...(isProgram ? selectDemos(predictor.signature, labeled) : labeled),
+        ...(bootstrapped.get(name) ?? [])
+      ];
+      this.log(`Using ${predictor.demos.length} demonstrations for ${name}`);
+    }
 
-    return this.optimizedProgram;
+    this.compiledProgram = compiled;
+    return compiled;
   }
+}
 
-  /**
-   * Save the optimized program to a file
-   */
-  save(path: string, saveFieldMeta = false): void {
-    if (!this.optimizedProgram) {
-      throw new Error('No optimized program to save. Run compile() first.');
+/**
+ * Project program-level demonstrations onto a predictor's signature, keeping those
+ * that contain every required input field and at least one output field of the predictor
+ */
+export function selectDemos(
+  signature: Signature,
+  demos: TrainingExample<any, any>[]
+): TrainingExample<any, any>[] {
+  const selected: TrainingExample<any, any>[] = [];
+
+  for (const demo of demos) {
+    const values: Record<string, any> = { ...demo.input, ...demo.output };
+    const covers = signature.inputs
+      .every(field => field.required === false || values[field.name] !== undefined)
+      && signature.outputs.some(field => values[field.name] !== undefined);
+    if (!covers) {
+      continue;
     }
 
-    const data = {
-      config: this.config,
-      program: {
-        name: this.optimizedProgram.name,
-        signature: this.optimizedProgram.signature,
-        promptTemplate: this.optimizedProgram.promptTemplate?.toString(),
-        fieldMeta: saveFieldMeta ? this.optimizedProgram.signature : undefined
+    const pick = (fields: Signature['inputs']): Record<string, any> => {
+      const picked: Record<string, any> = {};
+      for (const field of fields) {
+        if (values[field.name] !== undefined) {
+          picked[field.name] = values[field.name];
+        }
       }
+      return picked;
     };
-
-    // Write to file
-    const fs = require('fs');
-    fs.writeFileSync(path, JSON.stringify(data, null, 2));
+    selected.push({ input: pick(signature.inputs), output: pick(signature.outputs) });
   }
 
-  /**
-   * Load an optimized program from a file
-   */
-  load(path: string): void {
-    const fs = require('fs');
-    const data = JSON.parse(fs.readFileSync(path, 'utf8'));
-
-    // Recreate the program
-    this.optimizedProgram = new OptimizedModule(
-      data.program.name,
-      data.program.signature,
-      eval(`(${data.program.promptTemplate})`)
-    );
-    this.config = data.config;
-  }
+  return selected;
 }
@@ -0,0 +1,315 @@
+/**
+ * COPRO optimizer implementation
+ *
+ * Coordinate-ascent prompt optimization: improves the instruction of each
+ * predictor, and the prefix of its final output field, by asking an LM for
+ * candidates, scoring them on the training set and feeding the scored attempts
+ * back to the LM for the next round.
+ */
+
+import { Module } from '../core/module';
+import { PredictModule } from '../modules/predict';
+import { Signature } from '../core/signature';
+import { toTrainingExample } from '../core/example';
+import { Evaluate } from '../evaluate/evaluate';
+import { LMDriver } from '../lm/base';
+import { Optimizer, OptimizerConfig, TrainingExample, TrainingData, MetricFunction } from './base';
+
+/**
+ * Configuration for COPRO optimizer
+ */
+export interface COPROConfig extends OptimizerConfig {
+  /**
+   * Candidates proposed per predictor in each round (default: 10)
+   */
+  breadth?: number;
+
+  /**
+   * Number of rounds (default: 3)
+   */
+  depth?: number;
+
+  /**
+   * Temperature for the first round of proposals (default: 1.4)
+   */
+  initTemperature?: number;
+
+  /**
+   * LM that proposes instructions (default: the configured LM)
+   */
+  promptModel?: LMDriver;
+}
+
+/**
+ * A scored instruction candidate
+ */
+export interface InstructionCandidate {
+  instruction: string;
+
+  /**
+   * Prefix for the final output field, set as its description
+   */
+  prefix: string;
+  score: number;
+
+  /**
+   * Round the candidate was proposed in; 0 is the original instruction
+   */
+  round: number;
+}
+
+/**
+ * Scores of one predictor's candidates in one round
+ */
+export interface COPRORoundStats {
+  round: number;
+  predictor: string;
+  candidates: number;
+  best: number;
+  average: number;
+}
+
+/**
+ * COPRO optimizer for predictor instructions
+ *
+ * @example
+ * const optimizer = new COPRO(answerMatch(), { breadth: 6, depth: 2 });
+ * const optimized = await optimizer.compile(program, trainset);
+ * console.table(optimizer.getTrajectory());
+ */
+export class COPRO<
+  TInput extends Record<string, any>,
+  TOutput extends Record<string, any>
+> extends Optimizer<TInput, TOutput> {
+  protected config: Required<Omit<COPROConfig, 'promptModel'>>;
+  private readonly promptModel?: LMDriver;
+  private trajectory: COPRORoundStats[] = [];
+  private history = new Map<string, InstructionCandidate[]>();
+
+  constructor(metric: MetricFunction<TInput, TOutput>, config: COPROConfig = {}) {
+    super(metric, config);
+    const { promptModel, ...options } = config;
+    this.promptModel = promptModel;
+    this.config = {
+      maxIterations: 10,
+      numThreads: 1,
+      debug: false,
+      breadth: 10,
+      depth: 3,
+      initTemperature: 1.4,
+      ...options
+    };
+    if (this.config.breadth < 2) {
+      throw new Error('COPRO breadth must be at least 2');
+    }
+  }
+
+  /**
+   * Optimize the instruction of every predictor in the program. Predictors whose
+   * `rendersInstructions()` is false are left unchanged.
+   */
+  async compile(
+    program: Module<TInput, TOutput>,
+    trainset: TrainingData<TInput, TOutput>[]
+  ): Promise<Module<TInput, TOutput>> {
+    const examples = trainset.map(example => toTrainingExample<TInput, TOutput>(example));
+    const compiled = program.clone();
+    const predictors = compiled.namedPredictors().filter(([name, predictor]) => {
+      if (!predictor.rendersInstructions()) {
+        this.log(`Skipping "${name}": its prompt does not include instructions`);
+      }
+      return predictor.rendersInstructions();
+    });
+    if (predictors.length === 0) {
+      throw new Error('COPRO found no predictors whose prompts include instructions');
+    }
+    this.trajectory = [];
+    this.history = new Map();
+
+    const baseline = await this.evaluate(compiled, examples);
+    const originals = new Map<string, Signature>();
+    for (const [name, predictor] of predictors) {
+      const { signature } = predictor;
+      originals.set(name, { ...signature, outputs: [...signature.outputs] });
+      this.history.set(name, [{
+        instruction: signature.instructions ?? describeTask(signature),
+        prefix: lastOutput(signature).description ?? '',
+        score: baseline,
+        round: 0
+      }]);
+    }
+
+    for (let round = 1; round <= this.config.depth; round++) {
+      // Coordinate ascent: tune one predictor at a time, keeping the others at their best
+      for (const [name, predictor] of predictors) {
+        const history = this.history.get(name)!;
+        const proposals = await this.propose(history, round);
+
+        const scores: number[] = [];
+        for (const proposal of proposals) {
+          applyCandidate(predictor, proposal);
+          const score = await this.evaluate(compiled, examples);
+          history.push({ ...proposal, score, round });
+          scores.push(score);
+          this.log(`Round ${round}, ${name}: ${score.toFixed(3)} for "${proposal.instruction}"`);
+        }
+
+        const best = bestCandidate(history);
+        if (best.round === 0) {
+          // Keep the original signature as it was, rather than its described form
+          const original = originals.get(name)!;
+          predictor.signature.instructions = original.instructions;
+          predictor.signature.outputs = original.outputs;
+        } else {
+          applyCandidate(predictor, best);
+        }
+        if (scores.length > 0) {
+          this.trajectory.push({
+            round,
+            predictor: name,
+            candidates: scores.length,
+            best: Math.max(...scores),
+            average: scores.reduce((a, b) => a + b, 0) / scores.length
+          });
+        }
+      }
+    }
+
+    this.compiledProgram = compiled;
+    return compiled;
+  }
+
+  /**
+   * Best and average candidate scores for each predictor in each round
+   */
+  getTrajectory(): COPRORoundStats[] {
+    return this.trajectory.map(stats => ({ ...stats }));
+  }
+
+  /**
+   * All scored candidates of a predictor, in the order they were tried
+   */
+  getCandidates(predictor = 'self'): InstructionCandidate[] {
+    return (this.history.get(predictor) ?? []).map(candidate => ({ ...candidate }));
+  }
+
+  /**
+   * Ask the prompt model for new candidates: variations of the current instruction in
+   * the first round, then improvements on the scored attempts
+   */
+  private async propose(
+    history: InstructionCandidate[],
+    round: number
+  ): Promise<Array<{ instruction: string; prefix: string }>> {
+    const outputs = [
+      { name: 'proposed_instruction', type: 'string' as const },
+      {
+        name: 'proposed_prefix_for_output_field',
+        type: 'string' as const,
+        description: 'Short label that introduces the output field, e.g. "Answer:"'
+      }
+    ];
+    const proposer = round === 1
+      ? new PredictModule<Record<string, string>, Record<string, string>>({
+        name: 'InstructionGenerator',
+        signature: {
+          instructions:
+            'You are an instruction optimizer for large language models. Write a new, improved ' +
+            'instruction for the task, and a prefix for its final output field.',
+          inputs: [{ name: 'basic_instruction', type: 'string' }],
+          outputs
+        },
+        lm: this.promptModel
+      })
+      : new PredictModule<Record<string, string>, Record<string, string>>({
+        name: 'InstructionImprover',
+        signature: {
+          instructions:
+            'You are an instruction optimizer for large language models. Below are previous ' +
+            'instructions with their validation scores, from worst to best. Write a new instruction ' +
+            'that scores higher, and a prefix for its final output field.',
+          inputs: [{ name: 'attempted_instructions', type: 'string' }],
+          outputs
+        },
+        lm: this.promptModel
+      });
+    const input: Record<string, string> = round === 1
+      ? { basic_instruction: history[0].instruction }
+      : { attempted_instructions: formatAttempts(history, this.config.breadth) };
+
+    const proposals: Array<{ instruction: string; prefix: string }> = [];
+    const seen = new Set(history.map(candidate => candidate.instruction));
+    const count = round === 1 ? this.config.breadth - 1 : this.config.breadth;
+
+    for (let i = 0; i < count; i++) {
+      proposer.set({
+        temperature: round === 1 ? this.config.initTemperature : 0.7 + (0.5 * i) / count
+      });
+      try {
+        const output = await proposer.run(input);
+        const instruction = String(output.proposed_instruction).trim();
+        if (instruction && !seen.has(instruction)) {
+          seen.add(instruction);
+          proposals.push({ instruction, prefix: String(output.proposed_prefix_for_output_field ?? '').trim() });
+        }
+      } catch (err) {
+        this.log(`Error proposing instruction: ${err}`);
+      }
+    }
+
+    return proposals;
+  }
+
+  private async evaluate(
+    program: Module<TInput, TOutput>,
+    examples: TrainingExample<TInput, TOutput>[]
+  ): Promise<number> {
+    const evaluator = new Evaluate<TInput, TOutput>(this.metric, { numThreads: this.config.numThreads });
+    const { score } = await evaluator.run(program, examples);
+    return score;
+  }
+}
+
+/**
+ * The instruction adapters fall back to when a signature has none
+ */
+function describeTask(signature: Signature): string {
+  const names = (fields: Signature['inputs']): string => fields.map(f => `\`${f.name}\``).join(', ');
+  return `Given the fields ${names(signature.inputs)}, produce the fields ${names(signature.outputs)}.`;
+}
+
+function lastOutput(signature: Signature): Signature['outputs'][number] {
+  return signature.outputs[signature.outputs.length - 1];
+}
+
+/**
+ * Set a candidate's instruction and output prefix on a predictor
+ */
+function applyCandidate(predictor: Module<any, any>, candidate: { instruction: string; prefix: string }): void {
+  const { signature } = predictor;
+  signature.instructions = candidate.instruction;
+  signature.outputs = signature.outputs.map((field, i) =>
+    i === signature.outputs.length - 1 ? { ...field, description: candidate.prefix || undefined } : field
+  );
+}
+
+/**
+ * Highest-scoring candidate; earlier candidates win ties, so the original is kept unless beaten
+ */
+function bestCandidate(history: InstructionCandidate[]): InstructionCandidate {
+  return history.reduce((best, candidate) => (candidate.score > best.score ? candidate : best));
+}
+
+/**
+ * The best attempts so far, listed from worst to best with their scores
+ */
+function formatAttempts(history: InstructionCandidate[], limit: number): string {
+  return [...history]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .reverse()
+    .map(candidate =>
+      `Instruction: ${candidate.instruction}\nPrefix: ${candidate.prefix}\nScore: ${candidate.score.toFixed(3)}`
+    )
+    .join('\n\n');
+}
@@ -0,0 +1,130 @@
+/**
+ * Ensemble combinator
+ *
+ * Combines several programs into one that runs them all (or a random subset)
+ * on each input and reduces their outputs, by default with a majority vote.
+ */
+
+import { Module } from '../core/module';
+import { Program } from '../core/program';
+import { normalizeAnswer } from '../evaluate/metrics';
+import { SeededRandom } from '../utils/random';
+
+/**
+ * Combines the outputs of an ensemble's programs into one output
+ */
+export type ReduceFunction<TOutput> = (outputs: TOutput[]) => TOutput | Promise<TOutput>;
+
+/**
+ * Configuration for Ensemble
+ */
+export interface EnsembleConfig<TOutput> {
+  /**
+   * Combines the outputs (default: `majority()`)
+   */
+  reduce?: ReduceFunction<TOutput>;
+
+  /**
+   * Number of programs sampled for each call (default: all of them)
+   */
+  size?: number;
+
+  /**
+   * Seed for sampling programs (default: 0)
+   */
+  seed?: number;
+}
+
+/**
+ * Builds ensemble programs, e.g. from the top candidates of an optimizer
+ *
+ * @example
+ * const candidates = randomSearch.getTopPrograms(5);
+ * const ensemble = new Ensemble({ reduce: majority('answer'), size: 3 }).compile(candidates);
+ * await ensemble.run({ question: 'What is the capital of Peru?' });
+ */
+export class Ensemble<TInput extends Record<string, any>, TOutput extends Record<string, any>> {
+  constructor(private readonly config: EnsembleConfig<TOutput> = {}) {
+    if (config.size !== undefined && config.size < 1) {
+      throw new Error('Ensemble size must be at least 1');
+    }
+  }
+
+  /**
+   * Combine the programs into a single program
+   */
+  compile(programs: Module<TInput, TOutput>[]): EnsembleProgram<TInput, TOutput> {
+    if (programs.length === 0) {
+      throw new Error('Ensemble needs at least one program');
+    }
+    return new EnsembleProgram(programs, this.config);
+  }
+}
+
+/**
+ * Program compiled by `Ensemble`
+ */
+export class EnsembleProgram<
+  TInput extends Record<string, any>,
+  TOutput extends Record<string, any>
+> extends Program<TInput, TOutput> {
+  private readonly reduce: ReduceFunction<TOutput>;
+  private readonly size?: number;
+  private readonly rng: SeededRandom;
+
+  constructor(public programs: Module<TInput, TOutput>[], config: EnsembleConfig<TOutput> = {}) {
+    super({ name: 'Ensemble' });
+    this.reduce = config.reduce ?? majority<TOutput>();
+    this.size = config.size;
+    this.rng = new SeededRandom(config.seed ?? 0);
+  }
+
+  /**
+   * Run the programs and reduce their outputs. Programs that fail are left out
+   * of the vote; the call only fails when all of them do.
+   */
+  async forward(input: TInput): Promise<TOutput> {
+    const programs = this.size !== undefined && this.size < this.programs.length
+      ? this.rng.sample(this.programs, this.size)
+      : this.programs;
+
+    const results = await Promise.allSettled(programs.map(program => program.run(input)));
+    const outputs: TOutput[] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        outputs.push(result.value);
+      }
+    }
+    if (outputs.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return this.reduce(outputs);
+  }
+}
+
+/**
+ * Reduce function that returns the first output holding the most common value of a field
+ * (default: the last output field, so the answer rather than a leading `reasoning`).
+ * Strings are compared after `normalizeAnswer`.
+ */
+export function majority<TOutput extends Record<string, any>>(field?: string): ReduceFunction<TOutput> {
+  return (outputs: TOutput[]): TOutput => {
+    if (outputs.length === 0) {
+      throw new Error('Cannot take a majority vote over no outputs');
+    }
+    const fields = Object.keys(outputs[0]);
+    const name = field ?? fields[fields.length - 1];
+    const keys = outputs.map(output => {
+      const value = output[name];
+      return typeof value === 'string' ? normalizeAnswer(value) : String(JSON.stringify(value));
+    });
+    const counts = new Map<string, number>();
+    for (const key of keys) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    // Ties go to the value that appears first
+    const top = Math.max(...counts.values());
+    return outputs[keys.findIndex(key => counts.get(key) === top)];
+  };
+}
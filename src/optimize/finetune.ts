@@ -0,0 +1,295 @@
+/**
+ * BootstrapFinetune optimizer implementation
+ *
+ * Runs a teacher program over the training set, keeps the predictor calls of
+ * runs that pass the metric, renders them as chat-format fine-tuning data and
+ * hands the data to a `Finetuner`. The compiled program's predictors use the
+ * fine-tuned LMs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Module } from '../core/module';
+import { toTrainingExample } from '../core/example';
+import { withTrace, TraceEntry } from '../core/settings';
+import { getAdapter } from '../adapters/settings';
+import { ChatMessage, LMDriver } from '../lm/base';
+import { Optimizer, OptimizerConfig, TrainingExample, TrainingData, MetricFunction } from './base';
+
+/**
+ * Layout of the fine-tuning records
+ */
+export type FinetuneFormat = 'openai' | 'anthropic';
+
+/**
+ * One fine-tuning example. OpenAI-style records keep the system prompt in `messages`;
+ * Anthropic-style records move it to `system`.
+ */
+export interface FinetuneRecord {
+  system?: string;
+  messages: ChatMessage[];
+}
+
+/**
+ * Training data for one fine-tuned model
+ */
+export interface FinetuneJob {
+  /**
+   * Predictor the data was collected for, or `all` when one model serves every predictor
+   */
+  name: string;
+  format: FinetuneFormat;
+  records: FinetuneRecord[];
+
+  /**
+   * The records as JSONL, one record per line
+   */
+  jsonl: string;
+
+  /**
+   * LM the predictor used before fine-tuning, if it has its own
+   */
+  lm?: LMDriver;
+}
+
+/**
+ * Trains a model on a job's data and returns an LM that serves it. Returning nothing, or
+ * the job's own LM, leaves the predictors' LMs unchanged.
+ */
+export interface Finetuner {
+  finetune(job: FinetuneJob): Promise<LMDriver | undefined>;
+}
+
+/**
+ * Configuration for BootstrapFinetune optimizer
+ */
+export interface BootstrapFinetuneConfig extends OptimizerConfig {
+  /**
+   * Trains the models
+   */
+  finetuner: Finetuner;
+
+  /**
+   * Record layout (default: 'openai')
+   */
+  format?: FinetuneFormat;
+
+  /**
+   * Minimum metric score for a run's traces to be kept (default: 0.7)
+   */
+  minScore?: number;
+
+  /**
+   * Fine-tune one model on the data of all predictors instead of one per predictor (default: true)
+   */
+  multitask?: boolean;
+
+  /**
+   * Program whose runs are traced (default: the program being compiled). Its predictors
+   * must have the same names as the student's.
+   */
+  teacher?: Module<any, any>;
+}
+
+/**
+ * BootstrapFinetune optimizer that fine-tunes the LMs of a program on its own successful runs
+ *
+ * @example
+ * const optimizer = new BootstrapFinetune(exactMatch(), { finetuner: new LocalFinetuner({ outputDir: 'data' }) });
+ * const finetuned = await optimizer.compile(program, trainset);
+ */
+export class BootstrapFinetune<
+  TInput extends Record<string, any>,
+  TOutput extends Record<string, any>
+> extends Optimizer<TInput, TOutput> {
+  protected config: Required<Omit<BootstrapFinetuneConfig, 'finetuner' | 'teacher'>>;
+  private readonly finetuner: Finetuner;
+  private readonly teacher?: Module<any, any>;
+  private jobs: FinetuneJob[] = [];
+
+  constructor(metric: MetricFunction<TInput, TOutput>, config: BootstrapFinetuneConfig) {
+    super(metric, config);
+    const { finetuner, teacher, ...options } = config;
+    this.finetuner = finetuner;
+    this.teacher = teacher;
+    this.config = {
+      maxIterations: 10,
+      numThreads: 1,
+      debug: false,
+      format: 'openai',
+      minScore: 0.7,
+      multitask: true,
+      ...options
+    };
+  }
+
+  /**
+   * Collect training data from successful teacher runs, fine-tune and return a copy of the
+   * program whose predictors use the fine-tuned LMs
+   */
+  async compile(
+    program: Module<TInput, TOutput>,
+    trainset: TrainingData<TInput, TOutput>[]
+  ): Promise<Module<TInput, TOutput>> {
+    const examples = trainset.map(example => toTrainingExample<TInput, TOutput>(example));
+    const records = await this.collectRecords(program, examples);
+    if (records.size === 0) {
+      throw new Error('BootstrapFinetune found no successful runs to train on');
+    }
+
+    const compiled = program.clone();
+    const predictors = compiled.namedPredictors();
+    const groups: Array<[string, FinetuneRecord[]]> = this.config.multitask
+      ? [['all', [...records.values()].flat()]]
+      : [...records.entries()];
+
+    for (const [name] of groups) {
+      if (name !== 'all' && !predictors.some(([predictorName]) => predictorName === name)) {
+        throw new Error(`BootstrapFinetune found no predictor named "${name}" in the program to fine-tune`);
+      }
+    }
+
+    this.jobs = [];
+    for (const [name, data] of groups) {
+      const owner = predictors.find(([predictorName]) => name === 'all' || predictorName === name)?.[1];
+      const job: FinetuneJob = {
+        name,
+        format: this.config.format,
+        records: data,
+        jsonl: toJSONL(data),
+        lm: owner?.lm
+      };
+      this.jobs.push(job);
+      this.log(`Fine-tuning ${name} on ${data.length} examples`);
+
+      const lm = await this.finetuner.finetune(job);
+      if (!lm || lm === job.lm) {
+        // Nothing new to serve; rebinding would pin one LM on predictors that use others
+        this.log(`Keeping the current LMs for ${name}`);
+        continue;
+      }
+      for (const [predictorName, predictor] of predictors) {
+        if (name === 'all' || predictorName === name) {
+          predictor.set({ lm });
+        }
+      }
+    }
+
+    this.compiledProgram = compiled;
+    return compiled;
+  }
+
+  /**
+   * Jobs handed to the finetuner in the last compile
+   */
+  getJobs(): FinetuneJob[] {
+    return [...this.jobs];
+  }
+
+  /**
+   * Run the teacher on every example and turn the predictor calls of passing runs into
+   * records, grouped by predictor name. Each record holds the messages the predictor
+   * sent and its output as the assistant turn.
+   */
+  private async collectRecords(
+    program: Module<TInput, TOutput>,
+    examples: TrainingExample<TInput, TOutput>[]
+  ): Promise<Map<string, FinetuneRecord[]>> {
+    const teacher = this.teacher ?? program;
+    const names = new Map(teacher.namedPredictors().map(([name, predictor]) => [predictor, name]));
+    const records = new Map<string, FinetuneRecord[]>();
+
+    for (const example of examples) {
+      let trace: TraceEntry[];
+      try {
+        const traced = await withTrace(() => teacher.run(example.input));
+        const score = await this.score(example.input, traced.result, example.output);
+        if (score < this.config.minScore) {
+          continue;
+        }
+        trace = traced.trace;
+      } catch (err) {
+        this.log(`Error collecting trace: ${err}`);
+        continue;
+      }
+
+      for (const { module, output, messages } of trace) {
+        const name = names.get(module);
+        if (name === undefined) {
+          continue;
+        }
+        if (!messages) {
+          throw new Error(
+            `BootstrapFinetune cannot train "${name}": its calls do not record the messages sent to the LM`
+          );
+        }
+        const adapter = module.adapter ?? getAdapter();
+        const conversation: ChatMessage[] = [
+          ...messages,
+          { role: 'assistant', content: adapter.formatOutputs(module.signature, output) }
+        ];
+        records.set(name, [...(records.get(name) ?? []), toRecord(conversation, this.config.format)]);
+      }
+    }
+
+    return records;
+  }
+}
+
+/**
+ * Options for LocalFinetuner
+ */
+export interface LocalFinetunerOptions {
+  /**
+   * Directory that receives one `<job name>.jsonl` file per job (default: nothing is written)
+   */
+  outputDir?: string;
+
+  /**
+   * LM returned for every job (default: none, so predictors keep their LMs)
+   */
+  lm?: LMDriver;
+}
+
+/**
+ * Finetuner that trains nothing: it keeps the jobs, optionally writes their data to disk and
+ * returns the given LM, if any. Use it to inspect training data or to test the flow offline.
+ */
+export class LocalFinetuner implements Finetuner {
+  /**
+   * Jobs received, in order
+   */
+  readonly jobs: FinetuneJob[] = [];
+
+  constructor(private readonly options: LocalFinetunerOptions = {}) {}
+
+  async finetune(job: FinetuneJob): Promise<LMDriver | undefined> {
+    this.jobs.push(job);
+    if (this.options.outputDir) {
+      fs.mkdirSync(this.options.outputDir, { recursive: true });
+      fs.writeFileSync(path.join(this.options.outputDir, `${job.name}.jsonl`), job.jsonl);
+    }
+    return this.options.lm;
+  }
+}
+
+/**
+ * Render fine-tuning records as JSONL
+ */
+export function toJSONL(records: FinetuneRecord[]): string {
+  return records.map(record => JSON.stringify(record)).join('\n') + (records.length > 0 ? '\n' : '');
+}
+
+/**
+ * Lay out a conversation in the given format
+ */
+function toRecord(messages: ChatMessage[], format: FinetuneFormat): FinetuneRecord {
+  if (format === 'openai') {
+    return { messages };
+  }
+  const system = messages.filter(message => message.role === 'system').map(message => message.content);
+  return {
+    ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+    messages: messages.filter(message => message.role !== 'system')
+  };
+}
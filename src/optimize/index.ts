@@ -0,0 +1,14 @@
+/**
+ * DSPy Optimizers
+ *
+ * Optimizers that tune the prompts and demonstrations of programs
+ */
+
+export * from './base';
+export * from './bootstrap';
+export * from './copro';
+export * from './ensemble';
+export * from './finetune';
+export * from './knn-fewshot';
+export * from './mipro-v2';
+export * from './random-search';
@@ -0,0 +1,240 @@
+/**
+ * KNNFewShot optimizer implementation
+ *
+ * Stores the training set in AgentDB and, for every call of the compiled
+ * program, retrieves the examples nearest to the input as demos.
+ */
+
+import { Module } from '../core/module';
+import { Program } from '../core/program';
+import { toTrainingExample } from '../core/example';
+import { AgentDBClient } from '../memory/agentdb/client';
+import { DEFAULT_AGENTDB_CONFIG } from '../memory/agentdb/config';
+import { deepEqual } from '../utils/deep-equal';
+import { Optimizer, OptimizerConfig, TrainingExample, TrainingData, MetricFunction } from './base';
+import { selectDemos } from './bootstrap';
+
+/**
+ * Turns text into an embedding vector; every vector must have the same dimension
+ */
+export type Embedder = (text: string) => number[] | Promise<number[]>;
+
+/**
+ * Configuration for KNNFewShot optimizer
+ */
+export interface KNNFewShotConfig extends OptimizerConfig {
+  /**
+   * Number of nearest examples retrieved as demos for each input (default: 3)
+   */
+  k?: number;
+
+  /**
+   * Embeds inputs and training examples (default: `hashingEmbedder()`)
+   */
+  embedder?: Embedder;
+
+  /**
+   * Initialized client that stores the training set (default: a new in-memory client)
+   */
+  client?: AgentDBClient;
+
+  /**
+   * Input fields that are embedded (default: all fields of each input)
+   */
+  inputFields?: string[];
+
+  /**
+   * Minimum similarity of a retrieved example (default: 0)
+   */
+  minScore?: number;
+
+  /**
+   * Demos shown on every call, before the retrieved ones. Demos the program already has are kept too.
+   */
+  fixedDemos?: TrainingData[];
+}
+
+/**
+ * How a compiled program retrieves its demos
+ */
+interface Retrieval {
+  client: AgentDBClient;
+  embedder: Embedder;
+  k: number;
+  minScore: number;
+  inputFields?: string[];
+}
+
+/**
+ * Metadata key holding the example stored with each vector
+ */
+const DEMO_KEY = 'knnFewShotDemo';
+
+/**
+ * KNNFewShot optimizer: demos are chosen per input by similarity
+ *
+ * @example
+ * const optimizer = new KNNFewShot(exactMatch(), { k: 4, embedder: text => embeddings.embed(text) });
+ * const program = await optimizer.compile(qa, trainset);
+ * await program.run({ question: 'What is the capital of Peru?' });
+ */
+export class KNNFewShot<
+  TInput extends Record<string, any>,
+  TOutput extends Record<string, any>
+> extends Optimizer<TInput, TOutput> {
+  protected config: Required<Omit<KNNFewShotConfig, 'embedder' | 'client' | 'inputFields' | 'fixedDemos'>>;
+  private readonly embedder: Embedder;
+  private readonly client?: AgentDBClient;
+  private readonly inputFields?: string[];
+  private readonly fixedDemos: TrainingData[];
+
+  constructor(metric: MetricFunction<TInput, TOutput>, config: KNNFewShotConfig = {}) {
+    super(metric, config);
+    const { embedder, client, inputFields, fixedDemos, ...options } = config;
+    this.embedder = embedder ?? hashingEmbedder();
+    this.client = client;
+    this.inputFields = inputFields;
+    this.fixedDemos = fixedDemos ?? [];
+    this.config = {
+      maxIterations: 10,
+      numThreads: 1,
+      debug: false,
+      k: 3,
+      minScore: 0,
+      ...options
+    };
+  }
+
+  /**
+   * Store the labeled training examples and return a program that retrieves its demos per call
+   */
+  async compile(
+    program: Module<TInput, TOutput>,
+    trainset: TrainingData<TInput, TOutput>[]
+  ): Promise<Module<TInput, TOutput>> {
+    const examples = trainset
+      .map(example => toTrainingExample<TInput, TOutput>(example))
+      .filter(example => example.output !== undefined);
+    if (examples.length === 0) {
+      throw new Error('KNNFewShot needs labeled training examples');
+    }
+
+    const vectors = await Promise.all(
+      examples.map(example => this.embedder(embeddingText(example.input, this.inputFields)))
+    );
+    const client = this.client ?? await createClient(vectors[0].length);
+    for (let i = 0; i < examples.length; i++) {
+      await client.store(vectors[i], { [DEMO_KEY]: examples[i] });
+    }
+    this.log(`Stored ${examples.length} examples for retrieval`);
+
+    const base = program.clone();
+    const fixed = this.fixedDemos.map(example => toTrainingExample(example));
+    for (const [, predictor] of base.namedPredictors()) {
+      predictor.demos = [...predictor.demos, ...demosFor(base, predictor, fixed)];
+    }
+
+    const compiled = new KNNFewShotProgram<TInput, TOutput>(base, {
+      client,
+      embedder: this.embedder,
+      k: this.config.k,
+      minScore: this.config.minScore,
+      inputFields: this.inputFields
+    });
+    this.compiledProgram = compiled;
+    return compiled;
+  }
+}
+
+/**
+ * Program compiled by `KNNFewShot`: runs the wrapped program with the nearest
+ * training examples added to every predictor's demos
+ */
+export class KNNFewShotProgram<
+  TInput extends Record<string, any>,
+  TOutput extends Record<string, any>
+> extends Program<TInput, TOutput> {
+  constructor(public program: Module<TInput, TOutput>, private readonly retrieval: Retrieval) {
+    super({ name: `KNNFewShot(${program.name})`, signature: program.signature });
+  }
+
+  async forward(input: TInput): Promise<TOutput> {
+    const retrieved = await this.retrieve(input);
+
+    // Each call gets its own copy, so concurrent calls do not share demos
+    const program = this.program.clone();
+    for (const [, predictor] of program.namedPredictors()) {
+      const fixed = predictor.demos;
+      const demos = demosFor(program, predictor, retrieved);
+      predictor.demos = [...fixed, ...demos.filter(demo => !fixed.some(other => deepEqual(demo, other)))];
+    }
+    return program.run(input);
+  }
+
+  /**
+   * The training examples nearest to an input, most similar first
+   */
+  async retrieve(input: TInput): Promise<TrainingExample<TInput, TOutput>[]> {
+    const { client, embedder, k, minScore, inputFields } = this.retrieval;
+    const vector = await embedder(embeddingText(input, inputFields));
+    const results = await client.search(vector, { k, minScore });
+    return results
+      .map(result => result.data.metadata[DEMO_KEY] as TrainingExample<TInput, TOutput> | undefined)
+      .filter((demo): demo is TrainingExample<TInput, TOutput> => demo !== undefined);
+  }
+}
+
+/**
+ * Program-level examples as demos for one predictor: a program's predictors get the
+ * examples projected onto their own fields, a single module gets them unchanged
+ */
+function demosFor(
+  program: Module<any, any>,
+  predictor: Module<any, any>,
+  examples: TrainingExample[]
+): TrainingExample[] {
+  return program instanceof Program ? selectDemos(predictor.signature, examples) : examples;
+}
+
+/**
+ * Embedder that hashes lowercased words into a fixed number of buckets. Needs no model,
+ * and inputs that share words end up close.
+ */
+export function hashingEmbedder(dimension = 256): Embedder {
+  return (text: string): number[] => {
+    const vector = new Array<number>(dimension).fill(0);
+    for (const word of text.toLowerCase().match(/\w+/g) ?? []) {
+      // FNV-1a
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < word.length; i++) {
+        hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193) >>> 0;
+      }
+      vector[hash % dimension] += 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  };
+}
+
+/**
+ * The embedded text of an input: one `field: value` line per field
+ */
+function embeddingText(input: Record<string, any>, fields = Object.keys(input)): string {
+  return fields
+    .filter(field => input[field] !== undefined)
+    .map(field => {
+      const value = input[field];
+      return `${field}: ${typeof value === 'string' ? value : JSON.stringify(value)}`;
+    })
+    .join('\n');
+}
+
+async function createClient(vectorDimension: number): Promise<AgentDBClient> {
+  const client = new AgentDBClient({
+    vectorDimension,
+    mcpEnabled: false,
+    storage: { ...DEFAULT_AGENTDB_CONFIG.storage, inMemory: true }
+  });
+  await client.init();
+  return client;
+}
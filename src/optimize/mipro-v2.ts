@@ -0,0 +1,483 @@
+/**
+ * MIPROv2 optimizer implementation
+ *
+ * Optimizes the instructions and demonstrations of every predictor in a program:
+ * 1. Bootstrap several candidate demo sets.
+ * 2. Propose candidate instructions with an LM, grounded in a summary of the dataset.
+ * 3. Search instruction × demo combinations with a TPE-style surrogate, scoring
+ *    each trial on a minibatch of the validation set, then evaluate the most
+ *    promising combinations on the full validation set.
+ */
+
+import { Module } from '../core/module';
+import { PredictModule } from '../modules/predict';
+import { Signature, signatureToString } from '../core/signature';
+import { toTrainingExample } from '../core/example';
+import { Evaluate } from '../evaluate/evaluate';
+import { LMDriver } from '../lm/base';
+import { SeededRandom } from '../utils/random';
+import { Optimizer, OptimizerConfig, TrainingExample, TrainingData, MetricFunction } from './base';
+import { BootstrapFewShot } from './bootstrap';
+
+/**
+ * Configuration for MIPROv2 optimizer
+ */
+export interface MIPROv2Config extends OptimizerConfig {
+  /**
+   * Number of instruction candidates and of demo set candidates per predictor (default: 5)
+   */
+  numCandidates?: number;
+
+  /**
+   * Number of minibatch trials in the search (default: 20)
+   */
+  numTrials?: number;
+
+  /**
+   * Validation examples scored per trial (default: 10)
+   */
+  minibatchSize?: number;
+
+  /**
+   * Number of best combinations re-scored on the full validation set (default: 3)
+   */
+  numFinalCandidates?: number;
+
+  /**
+   * Random trials before the surrogate guides the search (default: 5)
+   */
+  numStartupTrials?: number;
+
+  maxLabeledDemos?: number;
+  maxBootstrappedDemos?: number;
+
+  /**
+   * Minimum metric score for bootstrapped demos (default: 0.7)
+   */
+  minScore?: number;
+
+  /**
+   * Seed for candidate sampling and the search (default: 0)
+   */
+  seed?: number;
+
+  /**
+   * LM that writes dataset summaries and instruction candidates (default: the configured LM)
+   */
+  promptModel?: LMDriver;
+}
+
+/**
+ * Candidate indices chosen for each predictor in a trial
+ */
+export interface MIPROv2Choice {
+  instruction: number;
+  demos: number;
+}
+
+/**
+ * A scored combination of candidates
+ */
+export interface MIPROv2Trial {
+  trial: number;
+  choices: Record<string, MIPROv2Choice>;
+  score: number;
+
+  /**
+   * Whether the score is on the full validation set rather than a minibatch
+   */
+  fullEval: boolean;
+}
+
+/**
+ * Instruction and demo candidates for one predictor
+ */
+interface PredictorCandidates {
+  instructions: string[];
+  demoSets: TrainingExample[][];
+}
+
+/**
+ * Phrasing hints that diversify proposed instructions
+ */
+const PROPOSAL_TIPS = [
+  'Keep the instruction short and direct.',
+  'Describe the task in detail, including edge cases.',
+  'Ask the model to be precise and avoid unsupported claims.',
+  'Frame the task from the perspective of a domain expert.',
+  'Mention the qualities of a good answer for this dataset.',
+];
+
+/**
+ * MIPROv2 optimizer for instructions and few-shot demonstrations
+ *
+ * @example
+ * const optimizer = new MIPROv2(exactMatch(), { numCandidates: 4, numTrials: 15, seed: 1 });
+ * const optimized = await optimizer.compile(program, trainset, valset);
+ */
+export class MIPROv2<
+  TInput extends Record<string, any>,
+  TOutput extends Record<string, any>
+> extends Optimizer<TInput, TOutput> {
+  protected config: Required<Omit<MIPROv2Config, 'promptModel'>>;
+  private readonly promptModel?: LMDriver;
+  private trials: MIPROv2Trial[] = [];
+
+  constructor(metric: MetricFunction<TInput, TOutput>, config: MIPROv2Config = {}) {
+    super(metric, config);
+    const { promptModel, ...options } = config;
+    this.promptModel = promptModel;
+    this.config = {
+      maxIterations: 10,
+      numThreads: 1,
+      debug: false,
+      numCandidates: 5,
+      numTrials: 20,
+      minibatchSize: 10,
+      numFinalCandidates: 3,
+      numStartupTrials: 5,
+      maxLabeledDemos: 4,
+      maxBootstrappedDemos: 4,
+      minScore: 0.7,
+      seed: 0,
+      ...options
+    };
+    if (this.config.numTrials < 1) {
+      throw new Error('MIPROv2 numTrials must be at least 1');
+    }
+    if (this.config.numFinalCandidates < 1) {
+      throw new Error('MIPROv2 numFinalCandidates must be at least 1');
+    }
+  }
+
+  /**
+   * Optimize a program. Without a validation set, the training set is used for validation.
+   */
+  async compile(
+    program: Module<TInput, TOutput>,
+    trainset: TrainingData<TInput, TOutput>[],
+    valset?: TrainingData<TInput, TOutput>[]
+  ): Promise<Module<TInput, TOutput>> {
+    const examples = trainset.map(example => toTrainingExample<TInput, TOutput>(example));
+    const validation = (valset ?? trainset).map(example => toTrainingExample<TInput, TOutput>(example));
+    if (validation.length === 0) {
+      throw new Error('MIPROv2 needs at least one validation example');
+    }
+
+    const rng = new SeededRandom(this.config.seed);
+    this.trials = [];
+
+    this.log('Bootstrapping demo candidates');
+    const demoSets = await this.proposeDemoSets(program, examples, rng);
+
+    this.log('Proposing instruction candidates');
+    const summary = await this.summarizeDataset(examples);
+    const candidates: Record<string, PredictorCandidates> = {};
+    for (const [name, predictor] of program.namedPredictors()) {
+      const demoCandidates = demoSets.map(sets => sets[name] ?? []);
+      let instructions: string[];
+      if (predictor.rendersInstructions()) {
+        instructions = await this.proposeInstructions(predictor.signature, summary, demoCandidates, rng);
+      } else {
+        // Proposals would not reach the prompt, so only the demos are searched
+        this.log(`Keeping the instruction of "${name}": its prompt does not include instructions`);
+        instructions = [predictor.signature.instructions ?? ''];
+      }
+      candidates[name] = { instructions, demoSets: demoCandidates };
+    }
+
+    const best = await this.search(program, candidates, validation, rng);
+    this.log(`Best score: ${best.score.toFixed(3)}`);
+
+    this.compiledProgram = applyChoices(program, candidates, best.choices);
+    return this.compiledProgram as Module<TInput, TOutput>;
+  }
+
+  /**
+   * Scores of every trial in the last compile, in the order they ran
+   */
+  getTrials(): MIPROv2Trial[] {
+    return this.trials.map(trial => ({ ...trial, choices: { ...trial.choices } }));
+  }
+
+  /**
+   * Candidate demo sets per predictor: none, labeled examples only, then bootstrapped
+   * sets from differently shuffled training data
+   */
+  private async proposeDemoSets(
+    program: Module<TInput, TOutput>,
+    trainset: TrainingExample<TInput, TOutput>[],
+    rng: SeededRandom
+  ): Promise<Array<Record<string, TrainingExample[]>>> {
+    const empty: Record<string, TrainingExample[]> = {};
+    const sets: Array<Record<string, TrainingExample[]>> = [empty];
+
+    for (let i = 1; i < this.config.numCandidates; i++) {
+      const bootstrap = new BootstrapFewShot<TInput, TOutput>(this.metric, {
+        maxLabeledDemos: this.config.maxLabeledDemos,
+        maxBootstrappedDemos: i === 1 ? 0 : this.config.maxBootstrappedDemos,
+        minScore: this.config.minScore,
+        debug: this.config.debug
+      });
+      const compiled = await bootstrap.compile(program, i === 1 ? trainset : rng.shuffle(trainset));
+
+      const set: Record<string, TrainingExample[]> = {};
+      for (const [name, predictor] of compiled.namedPredictors()) {
+        set[name] = predictor.demos;
+      }
+      sets.push(set);
+    }
+
+    return sets;
+  }
+
+  /**
+   * Ask the prompt model to describe the dataset, to ground instruction proposals
+   */
+  private async summarizeDataset(trainset: TrainingExample[]): Promise<string> {
+    const summarizer = new PredictModule<{ examples: string }, { summary: string }>({
+      name: 'DatasetSummarizer',
+      signature: {
+        instructions:
+          'Summarize the traits of this dataset that matter for solving the task: the topics, ' +
+          'the style and format of inputs and outputs, and anything unusual.',
+        inputs: [{ name: 'examples', type: 'string' }],
+        outputs: [{ name: 'summary', type: 'string' }]
+      },
+      lm: this.promptModel
+    });
+
+    try {
+      const { summary } = await summarizer.run({ examples: JSON.stringify(trainset.slice(0, 20)) });
+      return summary;
+    } catch (err) {
+      this.log(`Error summarizing dataset: ${err}`);
+      return '';
+    }
+  }
+
+  /**
+   * Instruction candidates for a predictor: its current instruction, then LM proposals
+   */
+  private async proposeInstructions(
+    signature: Signature,
+    summary: string,
+    demoSets: TrainingExample[][],
+    rng: SeededRandom
+  ): Promise<string[]> {
+    const current = signature.instructions ?? '';
+    const instructions = [current];
+    const proposer = new PredictModule<Record<string, string>, { instruction: string }>({
+      name: 'InstructionProposer',
+      signature: {
+        instructions:
+          'Write an instruction for a language model that solves the task below. Use the dataset ' +
+          'summary and the example demonstrations, and follow the tip.',
+        inputs: [
+          { name: 'task', type: 'string', description: 'Task as input and output fields' },
+          { name: 'dataset_summary', type: 'string' },
+          { name: 'demos', type: 'string' },
+          { name: 'current_instruction', type: 'string' },
+          { name: 'tip', type: 'string' }
+        ],
+        outputs: [{ name: 'instruction', type: 'string' }]
+      },
+      lm: this.promptModel
+    });
+
+    for (let i = 1; i < this.config.numCandidates; i++) {
+      proposer.set({ temperature: 0.7 + (0.5 * i) / this.config.numCandidates });
+      try {
+        const { instruction } = await proposer.run({
+          task: signatureToString(signature),
+          dataset_summary: summary || 'No summary available.',
+          demos: JSON.stringify(demoSets[i % demoSets.length].slice(0, 3)),
+          current_instruction: current || 'None',
+          tip: rng.choice(PROPOSAL_TIPS)
+        });
+        const proposal = instruction.trim();
+        if (proposal && !instructions.includes(proposal)) {
+          instructions.push(proposal);
+        }
+      } catch (err) {
+        this.log(`Error proposing instruction: ${err}`);
+      }
+    }
+
+    return instructions;
+  }
+
+  /**
+   * Run minibatch trials guided by the surrogate, then re-score the best combinations
+   * on the full validation set
+   */
+  private async search(
+    program: Module<TInput, TOutput>,
+    candidates: Record<string, PredictorCandidates>,
+    valset: TrainingExample<TInput, TOutput>[],
+    rng: SeededRandom
+  ): Promise<MIPROv2Trial> {
+    const surrogate = new TPESurrogate(rng);
+    const parameters: Record<string, number> = {};
+    for (const [name, { instructions, demoSets }] of Object.entries(candidates)) {
+      parameters[`${name}:instruction`] = instructions.length;
+      parameters[`${name}:demos`] = demoSets.length;
+    }
+
+    const minibatchScores = new Map<string, { choices: Record<string, MIPROv2Choice>; scores: number[] }>();
+    for (let trial = 0; trial < this.config.numTrials; trial++) {
+      // Start from the unoptimized program, then explore
+      const values = trial === 0
+        ? mapValues(parameters, () => 0)
+        : trial < this.config.numStartupTrials
+          ? mapValues(parameters, size => rng.int(size))
+          : surrogate.suggest(parameters);
+      const choices = toChoices(candidates, values);
+
+      const minibatch = rng.sample(valset, this.config.minibatchSize);
+      const score = await this.evaluate(applyChoices(program, candidates, choices), minibatch);
+      surrogate.observe(values, score);
+      this.trials.push({ trial, choices, score, fullEval: false });
+      this.log(`Trial ${trial}: ${score.toFixed(3)}`);
+
+      const key = JSON.stringify(choices);
+      const entry = minibatchScores.get(key) ?? { choices, scores: [] };
+      entry.scores.push(score);
+      minibatchScores.set(key, entry);
+    }
+
+    const ranked = [...minibatchScores.values()]
+      .map(({ choices, scores }) => ({ choices, score: scores.reduce((a, b) => a + b, 0) / scores.length }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.config.numFinalCandidates);
+
+    let best: MIPROv2Trial | undefined;
+    for (const { choices } of ranked) {
+      const score = await this.evaluate(applyChoices(program, candidates, choices), valset);
+      const trial: MIPROv2Trial = { trial: this.trials.length, choices, score, fullEval: true };
+      this.trials.push(trial);
+      if (!best || score > best.score) {
+        best = trial;
+      }
+    }
+
+    return best!;
+  }
+
+  private async evaluate(
+    program: Module<TInput, TOutput>,
+    examples: TrainingExample<TInput, TOutput>[]
+  ): Promise<number> {
+    const evaluator = new Evaluate<TInput, TOutput>(this.metric, { numThreads: this.config.numThreads });
+    const { score } = await evaluator.run(program, examples);
+    return score;
+  }
+}
+
+/**
+ * Tree-structured Parzen estimator over independent categorical parameters.
+ * Observations are split into the best quarter and the rest; suggestions favour
+ * values that are common among the best trials and rare among the others.
+ */
+class TPESurrogate {
+  private observations: Array<{ values: Record<string, number>; score: number }> = [];
+
+  constructor(
+    private readonly rng: SeededRandom,
+    private readonly gamma = 0.25,
+    private readonly numSamples = 24
+  ) {}
+
+  observe(values: Record<string, number>, score: number): void {
+    this.observations.push({ values, score });
+  }
+
+  /**
+   * Suggest a value for each parameter, given the number of choices for each
+   */
+  suggest(parameters: Record<string, number>): Record<string, number> {
+    const sorted = [...this.observations].sort((a, b) => b.score - a.score);
+    const numGood = Math.max(1, Math.ceil(this.gamma * sorted.length));
+    const good = sorted.slice(0, numGood);
+    const bad = sorted.slice(numGood);
+
+    return mapValues(parameters, (size, name) => {
+      const l = density(good, name, size);
+      const g = density(bad, name, size);
+      let bestValue = 0;
+      let bestRatio = -Infinity;
+      for (let i = 0; i < this.numSamples; i++) {
+        const value = sampleFrom(l, this.rng);
+        const ratio = l[value] / g[value];
+        if (ratio > bestRatio) {
+          bestValue = value;
+          bestRatio = ratio;
+        }
+      }
+      return bestValue;
+    });
+  }
+}
+
+/**
+ * Smoothed frequency of each value of a parameter among observations
+ */
+function density(
+  observations: Array<{ values: Record<string, number> }>,
+  name: string,
+  size: number
+): number[] {
+  const counts = new Array(size).fill(1);
+  for (const { values } of observations) {
+    counts[values[name]]++;
+  }
+  const total = observations.length + size;
+  return counts.map(count => count / total);
+}
+
+function sampleFrom(probabilities: number[], rng: SeededRandom): number {
+  let remaining = rng.next();
+  for (let i = 0; i < probabilities.length; i++) {
+    remaining -= probabilities[i];
+    if (remaining < 0) {
+      return i;
+    }
+  }
+  return probabilities.length - 1;
+}
+
+function mapValues<T, U>(record: Record<string, T>, fn: (value: T, key: string) => U): Record<string, U> {
+  const mapped: Record<string, U> = {};
+  for (const [key, value] of Object.entries(record)) {
+    mapped[key] = fn(value, key);
+  }
+  return mapped;
+}
+
+function toChoices(
+  candidates: Record<string, PredictorCandidates>,
+  values: Record<string, number>
+): Record<string, MIPROv2Choice> {
+  return mapValues(candidates, (_, name) => ({
+    instruction: values[`${name}:instruction`],
+    demos: values[`${name}:demos`]
+  }));
+}
+
+/**
+ * Copy of the program with the chosen instruction and demos set on each predictor
+ */
+function applyChoices<T extends Module<any, any>>(
+  program: T,
+  candidates: Record<string, PredictorCandidates>,
+  choices: Record<string, MIPROv2Choice>
+): T {
+  const candidateProgram = program.clone();
+  for (const [name, predictor] of candidateProgram.namedPredictors()) {
+    const { instructions, demoSets } = candidates[name];
+    const instruction = instructions[choices[name].instruction];
+    predictor.signature.instructions = instruction || undefined;
+    predictor.demos = demoSets[choices[name].demos].map(demo => ({ ...demo }));
+  }
+  return candidateProgram;
+}
@@ -0,0 +1,213 @@
+/**
+ * BootstrapFewShotWithRandomSearch optimizer implementation
+ */
+
+import { Module } from '../core/module';
+import { toTrainingExample } from '../core/example';
+import { Evaluate } from '../evaluate/evaluate';
+import { SeededRandom } from '../utils/random';
+import { Optimizer, TrainingExample, TrainingData, MetricFunction } from './base';
+import { BootstrapFewShot, BootstrapConfig } from './bootstrap';
+
+/**
+ * Configuration for BootstrapFewShotWithRandomSearch optimizer
+ */
+export interface RandomSearchConfig extends BootstrapConfig {
+  /**
+   * Number of candidate programs, including the zero-shot and labeled-only baselines (default: 8)
+   */
+  numCandidatePrograms?: number;
+
+  /**
+   * Fraction of the training set held out for validation when no valset is given (default: 0.25)
+   */
+  valRatio?: number;
+
+  /**
+   * Seed for shuffling and sampling (default: 0)
+   */
+  seed?: number;
+}
+
+/**
+ * How a candidate's demos were chosen
+ */
+export type CandidateStrategy = 'zero-shot' | 'labeled' | 'bootstrapped';
+
+/**
+ * Validation score of a candidate program
+ */
+export interface CandidateScore {
+  candidate: number;
+  strategy: CandidateStrategy;
+
+  /**
+   * Seed used to shuffle the training set, for bootstrapped candidates
+   */
+  seed?: number;
+
+  /**
+   * Total number of demos across the program's predictors
+   */
+  numDemos: number;
+  score: number;
+}
+
+/**
+ * Bootstraps several candidate demo sets from differently shuffled training data,
+ * scores each candidate program on a validation set and keeps the best
+ *
+ * @example
+ * const optimizer = new BootstrapFewShotWithRandomSearch(exactMatch(), { numCandidatePrograms: 10 });
+ * const best = await optimizer.compile(program, trainset, valset);
+ * console.table(optimizer.getLeaderboard());
+ */
+export class BootstrapFewShotWithRandomSearch<
+  TInput extends Record<string, any>,
+  TOutput extends Record<string, any>
+> extends Optimizer<TInput, TOutput> {
+  protected config: Required<Omit<RandomSearchConfig, 'teacher'>>;
+  private readonly teacher?: Module<any, any>;
+  private leaderboard: CandidateScore[] = [];
+  private candidates: Module<TInput, TOutput>[] = [];
+
+  constructor(metric: MetricFunction<TInput, TOutput>, config: RandomSearchConfig = {}) {
+    super(metric, config);
+    const { teacher, ...options } = config;
+    this.teacher = teacher;
+    this.config = {
+      maxIterations: 10,
+      numThreads: 1,
+      debug: false,
+      maxLabeledDemos: 4,
+      maxBootstrappedDemos: 4,
+      minScore: 0.7,
+      numCandidatePrograms: 8,
+      valRatio: 0.25,
+      seed: 0,
+      ...options
+    };
+    if (this.config.numCandidatePrograms < 1) {
+      throw new Error('BootstrapFewShotWithRandomSearch numCandidatePrograms must be at least 1');
+    }
+  }
+
+  /**
+   * Build and score the candidates, returning the best program.
+   * Without a validation set, part of the training set is held out for validation.
+   */
+  async compile(
+    program: Module<TInput, TOutput>,
+    trainset: TrainingData<TInput, TOutput>[],
+    valset?: TrainingData<TInput, TOutput>[]
+  ): Promise<Module<TInput, TOutput>> {
+    const rng = new SeededRandom(this.config.seed);
+    const { train, validation } = this.split(
+      trainset.map(example => toTrainingExample<TInput, TOutput>(example)),
+      valset?.map(example => toTrainingExample<TInput, TOutput>(example)),
+      rng
+    );
+
+    this.leaderboard = [];
+    this.candidates = [];
+    let best: { program: Module<TInput, TOutput>; score: number } | undefined;
+
+    for (let candidate = 0; candidate < this.config.numCandidatePrograms; candidate++) {
+      const { program: candidateProgram, strategy, seed } = await this.buildCandidate(
+        program,
+        train,
+        candidate,
+        rng
+      );
+
+      const evaluator = new Evaluate<TInput, TOutput>(this.metric, { numThreads: this.config.numThreads });
+      const { score } = await evaluator.run(candidateProgram, validation);
+      const numDemos = candidateProgram.namedPredictors()
+        .reduce((sum, [, predictor]) => sum + predictor.demos.length, 0);
+      this.leaderboard.push({ candidate, strategy, seed, numDemos, score });
+      this.candidates.push(candidateProgram);
+      this.log(`Candidate ${candidate} (${strategy}): ${score.toFixed(3)}`);
+
+      if (!best || score > best.score) {
+        best = { program: candidateProgram, score };
+      }
+    }
+
+    this.compiledProgram = best!.program;
+    return best!.program;
+  }
+
+  /**
+   * Scores of all candidates from the last compile, best first
+   */
+  getLeaderboard(): CandidateScore[] {
+    return [...this.leaderboard].sort((a, b) => b.score - a.score || a.candidate - b.candidate);
+  }
+
+  /**
+   * The highest-scoring candidate programs from the last compile, best first,
+   * e.g. to combine with `Ensemble`
+   */
+  getTopPrograms(count = this.candidates.length): Module<TInput, TOutput>[] {
+    return this.getLeaderboard()
+      .slice(0, count)
+      .map(({ candidate }) => this.candidates[candidate]);
+  }
+
+  /**
+   * Candidate 0 has no demos, candidate 1 only labeled demos; the rest bootstrap
+   * a random number of demos from a shuffled training set
+   */
+  private async buildCandidate(
+    program: Module<TInput, TOutput>,
+    trainset: TrainingExample<TInput, TOutput>[],
+    candidate: number,
+    rng: SeededRandom
+  ): Promise<{ program: Module<TInput, TOutput>; strategy: CandidateStrategy; seed?: number }> {
+    if (candidate === 0) {
+      const zeroShot = program.clone();
+      zeroShot.reset();
+      return { program: zeroShot, strategy: 'zero-shot' };
+    }
+
+    const labeledOnly = candidate === 1;
+    const seed = labeledOnly ? undefined : this.config.seed + candidate;
+    const { maxBootstrappedDemos } = this.config;
+    const bootstrap = new BootstrapFewShot<TInput, TOutput>(this.metric, {
+      maxLabeledDemos: this.config.maxLabeledDemos,
+      maxBootstrappedDemos: labeledOnly ? 0 : Math.min(maxBootstrappedDemos, 1 + rng.int(maxBootstrappedDemos)),
+      minScore: this.config.minScore,
+      teacher: this.teacher,
+      debug: this.config.debug
+    });
+    const examples = seed === undefined ? trainset : new SeededRandom(seed).shuffle(trainset);
+
+    return {
+      program: await bootstrap.compile(program, examples),
+      strategy: labeledOnly ? 'labeled' : 'bootstrapped',
+      seed
+    };
+  }
+
+  private split(
+    trainset: TrainingExample<TInput, TOutput>[],
+    valset: TrainingExample<TInput, TOutput>[] | undefined,
+    rng: SeededRandom
+  ): { train: TrainingExample<TInput, TOutput>[]; validation: TrainingExample<TInput, TOutput>[] } {
+    if (valset) {
+      if (valset.length === 0) {
+        throw new Error('BootstrapFewShotWithRandomSearch needs a non-empty valset');
+      }
+      return { train: trainset, validation: valset };
+    }
+
+    // Only labeled examples can be scored against expected outputs
+    const labeled = rng.shuffle(trainset.filter(example => example.output !== undefined));
+    const size = Math.min(labeled.length, Math.max(1, Math.round(labeled.length * this.config.valRatio)));
+    if (size === 0) {
+      throw new Error('BootstrapFewShotWithRandomSearch needs labeled examples or a valset for validation');
+    }
+    const validation = labeled.slice(0, size);
+    return { train: trainset.filter(example => !validation.includes(example)), validation };
+  }
+}
@@ -1,2 +1,2 @@
-// Utility functions will be added as needed throughout development
-export {};
+export * from './deep-equal';
+export * from './random';
@@ -0,0 +1,78 @@
+import { ChatAdapter } from '../../src/adapters/chat';
+import { parseSignature } from '../../src/core/signature';
+
+describe('ChatAdapter', () => {
+  const adapter = new ChatAdapter();
+  const signature = parseSignature(
+    'question: string "the question" -> answer: string, tags: string[]',
+    'Answer briefly.'
+  );
+
+  it('should format instructions, demos and inputs with field markers', () => {
+    const prompt = adapter.format(
+      signature,
+      [{ input: { question: 'Capital of France?' }, output: { answer: 'Paris', tags: ['geo'] } }],
+      { question: 'Capital of Peru?' }
+    );
+
+    expect(prompt).toContain('1. `question` (string): the question');
+    expect(prompt).toContain('2. `tags` (string[])');
+    expect(prompt).toContain('your objective is: Answer briefly.');
+    expect(prompt).toContain('[[ ## answer ## ]]\nParis\n\n[[ ## tags ## ]]\n["geo"]\n\n[[ ## completed ## ]]');
+    expect(prompt).toContain('[[ ## question ## ]]\nCapital of Peru?');
+    expect(prompt).toContain('`[[ ## tags ## ]]` (must be formatted as valid JSON)');
+  });
+
+  it('should format demos as user and assistant turns', () => {
+    const messages = adapter.formatMessages(
+      signature,
+      [{ input: { question: 'Capital of France?' }, output: { answer: 'Paris', tags: ['geo'] } }],
+      { question: 'Capital of Peru?' }
+    );
+
+    expect(messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(messages[0].content).toContain('Your input fields are:');
+    expect(messages[1].content).toBe('[[ ## question ## ]]\nCapital of France?');
+    expect(messages[2].content).toContain('[[ ## answer ## ]]\nParis');
+    expect(messages[3].content).toContain('[[ ## question ## ]]\nCapital of Peru?\n\nRespond with');
+  });
+
+  it('should skip demos without outputs', () => {
+    const prompt = adapter.format(signature, [{ input: { question: 'unlabeled' } }], { question: 'q' });
+    expect(prompt).not.toContain('unlabeled');
+  });
+
+  it('should parse marker sections into typed values', () => {
+    const output = adapter.parse(
+      signature,
+      '[[ ## answer ## ]]\nLima\n\n[[ ## tags ## ]]\n["geo", "peru"]\n\n[[ ## completed ## ]]'
+    );
+    expect(output).toEqual({ answer: 'Lima', tags: ['geo', 'peru'] });
+  });
+
+  it('should fall back to JSON and field lines when markers are missing', () => {
+    expect(adapter.parse(signature, 'Sure! {"answer": "Lima", "tags": ["geo"]}'))
+      .toEqual({ answer: 'Lima', tags: ['geo'] });
+    expect(adapter.parse(signature, 'answer: Lima\ntags: geo, peru'))
+      .toEqual({ answer: 'Lima', tags: ['geo', 'peru'] });
+  });
+
+  it('should use the whole completion for a single string output', () => {
+    const single = parseSignature('question -> answer');
+    expect(adapter.parse(single, '  Lima ')).toEqual({ answer: 'Lima' });
+  });
+
+  it('should throw when nothing can be parsed', () => {
+    expect(() => adapter.parse(signature, 'no idea')).toThrow('ChatAdapter failed to parse LM response');
+  });
+
+  it('should parse partial completions while streaming', () => {
+    expect(adapter.parsePartial(signature, '[[ ## answer ## ]]\nLi')).toEqual({ answer: 'Li' });
+    expect(adapter.parsePartial(signature, '[[ ## answer ## ]]\nLima\n\n[[ ## ta'))
+      .toEqual({ answer: 'Lima' });
+    expect(adapter.parsePartial(signature, '[[ ## answer ## ]]\nLima\n\n[[ ## tags ## ]]\n["geo"'))
+      .toEqual({ answer: 'Lima' });
+    expect(adapter.parsePartial(signature, '[[ ## answer ## ]]\nLima\n\n[[ ## tags ## ]]\n["geo"]\n\n[[ ## completed ## ]]'))
+      .toEqual({ answer: 'Lima', tags: ['geo'] });
+  });
+});
@@ -0,0 +1,36 @@
+import { JSONAdapter } from '../../src/adapters/json';
+import { parseSignature } from '../../src/core/signature';
+
+describe('JSONAdapter', () => {
+  const adapter = new JSONAdapter();
+  const signature = parseSignature('text -> sentiment: enum(positive, negative), score: number');
+
+  it('should format inputs and outputs as JSON objects', () => {
+    const prompt = adapter.format(
+      signature,
+      [{ input: { text: 'great', extra: 1 }, output: { sentiment: 'positive', score: 0.9 } }],
+      { text: 'awful' }
+    );
+
+    expect(prompt).toContain('Input:\n{\n  "text": "great"\n}');
+    expect(prompt).toContain('"sentiment": "positive",\n  "score": 0.9');
+    expect(prompt).toContain('Input:\n{\n  "text": "awful"\n}');
+    expect(prompt).toContain('{\n  "sentiment": "positive",\n  "score": 0\n}');
+  });
+
+  it('should parse a JSON object and coerce string values', () => {
+    expect(adapter.parse(signature, '```json\n{"sentiment": "Negative", "score": "0.2"}\n```'))
+      .toEqual({ sentiment: 'negative', score: 0.2 });
+  });
+
+  it('should parse partial JSON while streaming', () => {
+    const qa = parseSignature('question -> reasoning, answer');
+
+    expect(adapter.parsePartial(qa, '')).toEqual({});
+    expect(adapter.parsePartial(qa, '{"reasoning": "Add the')).toEqual({ reasoning: 'Add the' });
+    expect(adapter.parsePartial(qa, '{"reasoning": "Add.", "ans')).toEqual({ reasoning: 'Add.' });
+    expect(adapter.parsePartial(qa, '{"reasoning": "Add.", "answer": ')).toEqual({ reasoning: 'Add.' });
+    expect(adapter.parsePartial(signature, '{"sentiment": "positive", "score": 0.9}'))
+      .toEqual({ sentiment: 'positive', score: 0.9 });
+  });
+});
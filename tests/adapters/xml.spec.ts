@@ -0,0 +1,30 @@
+import { XMLAdapter } from '../../src/adapters/xml';
+import { parseSignature } from '../../src/core/signature';
+
+describe('XMLAdapter', () => {
+  const adapter = new XMLAdapter();
+  const signature = parseSignature('question -> answer, confidence: number');
+
+  it('should wrap fields in XML tags', () => {
+    const prompt = adapter.format(
+      signature,
+      [{ input: { question: '2+2?' }, output: { answer: '4', confidence: 1 } }],
+      { question: '3+3?' }
+    );
+
+    expect(prompt).toContain('<question>2+2?</question>\n\n<answer>4</answer>\n<confidence>1</confidence>');
+    expect(prompt).toContain('<question>3+3?</question>');
+    expect(prompt).toContain('<answer>...</answer>\n<confidence>...</confidence>');
+  });
+
+  it('should parse tagged output fields', () => {
+    expect(adapter.parse(signature, '<answer>\n6\n</answer><confidence>0.8</confidence>'))
+      .toEqual({ answer: '6', confidence: 0.8 });
+  });
+
+  it('should parse partial tags while streaming', () => {
+    expect(adapter.parsePartial(signature, '<answer>Six or')).toEqual({ answer: 'Six or' });
+    expect(adapter.parsePartial(signature, '<answer>6</ans')).toEqual({ answer: '6' });
+    expect(adapter.parsePartial(signature, '<answer>6</answer><confidence>0.')).toEqual({ answer: '6' });
+  });
+});
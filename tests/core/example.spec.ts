@@ -0,0 +1,67 @@
+import { Example, Prediction, toOutputs, toTrainingExample } from '../../src/core/example';
+
+describe('Example', () => {
+  const example = new Example({ question: 'Capital of France?', answer: 'Paris' }).withInputs('question');
+
+  it('should split fields into inputs and labels', () => {
+    expect(example.inputs()).toEqual({ question: 'Capital of France?' });
+    expect(example.labels()).toEqual({ answer: 'Paris' });
+    expect(example.get('answer')).toBe('Paris');
+    expect(example.keys()).toEqual(['question', 'answer']);
+  });
+
+  it('should require inputs to be marked before splitting', () => {
+    const unmarked = new Example({ question: 'q' });
+    expect(() => unmarked.inputs()).toThrow('Inputs have not been set for this example');
+  });
+
+  it('should not change when the source object or a copy changes', () => {
+    const data = { question: 'q', answer: 'a' };
+    const original = new Example(data).withInputs('question');
+    data.answer = 'changed';
+    const updated = original.with({ answer: 'b' });
+
+    expect(original.get('answer')).toBe('a');
+    expect(updated.get('answer')).toBe('b');
+    expect(updated.inputs()).toEqual({ question: 'q' });
+    expect(Object.isFrozen(original.toObject())).toBe(false);
+  });
+
+  it('should compare values and input keys', () => {
+    const same = new Example({ answer: 'Paris', question: 'Capital of France?' }).withInputs('question');
+
+    expect(example.equals(same)).toBe(true);
+    expect(example.equals(same.withInputs('answer'))).toBe(false);
+    expect(example.equals(same.with({ answer: 'Lyon' }))).toBe(false);
+  });
+
+  it('should convert to and from training examples', () => {
+    const training = { input: { question: 'q' }, output: { answer: 'a' } };
+
+    expect(Example.fromTrainingExample(training).equals(new Example({ question: 'q', answer: 'a' }, ['question'])))
+      .toBe(true);
+    expect(toTrainingExample(example)).toEqual({ input: { question: 'Capital of France?' }, output: { answer: 'Paris' } });
+    expect(toTrainingExample(training)).toBe(training);
+    expect(new Example({ question: 'q' }, ['question']).toTrainingExample()).toEqual({ input: { question: 'q' } });
+  });
+});
+
+describe('Prediction', () => {
+  it('should hold the chosen outputs and all completions', () => {
+    const prediction = Prediction.fromCompletions([{ answer: 'Paris' }, { answer: 'Lyon' }]);
+
+    expect(prediction.get('answer')).toBe('Paris');
+    expect(prediction.labels()).toEqual({ answer: 'Paris' });
+    expect(prediction.completions).toHaveLength(2);
+    expect(() => Prediction.fromCompletions([])).toThrow('without completions');
+  });
+
+  it('should be unwrapped into plain outputs and labels', () => {
+    const prediction = new Prediction({ answer: 'Paris' });
+
+    expect(toOutputs(prediction)).toEqual({ answer: 'Paris' });
+    expect(toOutputs({ answer: 'Lyon' })).toEqual({ answer: 'Lyon' });
+    expect(toTrainingExample({ input: { question: 'q' }, output: prediction }))
+      .toEqual({ input: { question: 'q' }, output: { answer: 'Paris' } });
+  });
+});
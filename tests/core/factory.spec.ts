@@ -1,5 +1,8 @@
-import { defineModule } from '../../src/core/factory';
+import { defineModule, registerStrategy, unregisterStrategy, listStrategies } from '../../src/core/factory';
+import { Module } from '../../src/core/module';
 import { PredictModule } from '../../src/modules/predict';
+import { ChainOfThought } from '../../src/modules/chain-of-thought';
+import { ReAct } from '../../src/modules/react';
 
 describe('Module Factory', () => {
   it('should create PredictModule by default', () => {
@@ -31,26 +34,84 @@ describe('Module Factory', () => {
     expect(module.strategy).toBe('Predict');
   });
 
-  it('should throw error for unimplemented strategies', () => {
-    expect(() => defineModule({
-      name: 'TestModule',
-      signature: {
-        inputs: [{ name: 'input', type: 'string' }],
-        outputs: [{ name: 'output', type: 'string' }]
-      },
-      promptTemplate: ({ input }) => input,
-      strategy: 'ChainOfThought'
-    })).toThrow('Strategy ChainOfThought not yet implemented');
+  it('should accept a string signature', () => {
+    const module = defineModule<{ question: string }, { answer: string }>({
+      name: 'QA',
+      signature: 'question: string -> answer: string',
+      promptTemplate: ({ question }) => question
+    });
 
-    expect(() => defineModule({
-      name: 'TestModule',
-      signature: {
-        inputs: [{ name: 'input', type: 'string' }],
-        outputs: [{ name: 'output', type: 'string' }]
-      },
-      promptTemplate: ({ input }) => input,
-      strategy: 'ReAct'
-    })).toThrow('Strategy ReAct not yet implemented');
+    expect(module.signature.inputs[0]).toEqual({ name: 'question', type: 'string', required: true });
+    expect(module.signature.outputs[0].name).toBe('answer');
+  });
+
+  it('should create ChainOfThought modules', () => {
+    const signature = {
+      inputs: [{ name: 'question', type: 'string' as const }],
+      outputs: [{ name: 'answer', type: 'string' as const }]
+    };
+    const module = defineModule({ name: 'QA', signature, strategy: 'ChainOfThought' });
+
+    expect(module).toBeInstanceOf(ChainOfThought);
+    expect(module.strategy).toBe('ChainOfThought');
+    expect(module.signature.outputs.map(f => f.name)).toEqual(['reasoning', 'answer']);
+    expect(signature.outputs.map(f => f.name)).toEqual(['answer']);
+  });
+
+  it('should create ReAct modules with tools and max iterations', async () => {
+    const search = { name: 'search', description: 'Search the web', execute: jest.fn() };
+    const module = defineModule({
+      name: 'Agent',
+      signature: 'question -> answer',
+      strategy: 'ReAct',
+      tools: [search],
+      maxIterations: 1
+    });
+    const lm = { generate: jest.fn().mockResolvedValue('Thought: I need to search.') };
+    module.set({ lm });
+
+    expect(module).toBeInstanceOf(ReAct);
+    await module.run({ question: 'Capital of Peru?' });
+    expect(lm.generate).toHaveBeenCalledTimes(2);
+    expect(lm.generate.mock.calls[0][0]).toContain('search: Search the web');
+  });
+
+  it('should leave a signature shared with other modules unchanged', async () => {
+    const signature = {
+      inputs: [{ name: 'question', type: 'string' as const }],
+      outputs: [{ name: 'answer', type: 'string' as const, required: true }]
+    };
+    const agent = new ReAct({ name: 'Agent', signature, tools: [] });
+    const cot = new ChainOfThought({ name: 'CoT', signature });
+    const predict = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'QA',
+      signature,
+      lm: { generate: async () => '[[ ## answer ## ]]\nLima' }
+    });
+
+    expect(agent.signature.outputs.map(f => f.name)).toEqual(['steps', 'reasoning', 'answer']);
+    expect(cot.signature.outputs.map(f => f.name)).toEqual(['reasoning', 'answer']);
+    expect(signature.outputs.map(f => f.name)).toEqual(['answer']);
+    expect(await predict.run({ question: 'Capital of Peru?' })).toEqual({ answer: 'Lima' });
+  });
+
+  it('should create modules for registered strategies', () => {
+    class EchoModule extends Module<{ text: string }, { echo: string }> {
+      async run(input: { text: string }): Promise<{ echo: string }> {
+        return { echo: input.text };
+      }
+    }
+    registerStrategy('Echo', options => new EchoModule({ ...options, strategy: 'Echo' }));
+
+    const module = defineModule({ name: 'Echo', signature: 'text -> echo', strategy: 'Echo' });
+
+    expect(module).toBeInstanceOf(EchoModule);
+    expect(module.strategy).toBe('Echo');
+    expect(listStrategies()).toEqual(['Predict', 'ChainOfThought', 'ReAct', 'Echo']);
+
+    unregisterStrategy('Echo');
+    expect(() => defineModule({ name: 'Echo', signature: 'text -> echo', strategy: 'Echo' }))
+      .toThrow('Unknown strategy: Echo');
   });
 
   it('should throw error for unknown strategies', () => {
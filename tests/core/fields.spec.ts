@@ -0,0 +1,61 @@
+import {
+  validateFieldValue,
+  exampleFieldValue,
+  coerceFieldValue
+} from '../../src/core/fields';
+import { FieldSchema } from '../../src/core/signature';
+
+describe('Field Values', () => {
+  const author: FieldSchema = {
+    type: 'object',
+    properties: [
+      { name: 'name', type: 'string', required: true },
+      { name: 'tags', type: 'array', items: { type: 'string' } }
+    ]
+  };
+
+  it('should accept valid values', () => {
+    expect(validateFieldValue({ type: 'integer' }, 3, 'n')).toBeNull();
+    expect(validateFieldValue({ type: 'date' }, '2024-05-01', 'd')).toBeNull();
+    expect(validateFieldValue({ type: 'date' }, new Date(), 'd')).toBeNull();
+    expect(validateFieldValue({ type: 'enum', values: ['a', 'b'] }, 'b', 'e')).toBeNull();
+    expect(validateFieldValue({ type: 'literal', value: 42 }, 42, 'l')).toBeNull();
+    expect(validateFieldValue(author, { name: 'Ada', tags: ['x'] }, 'author')).toBeNull();
+  });
+
+  it('should report the path and reason of invalid values', () => {
+    expect(validateFieldValue({ type: 'integer' }, 1.5, 'n')).toMatchObject({
+      path: 'n',
+      message: 'must be of type integer'
+    });
+    expect(validateFieldValue({ type: 'date' }, 'yesterday-ish', 'd')?.message)
+      .toBe('must be a valid date');
+    expect(validateFieldValue({ type: 'enum', values: ['a', 'b'] }, 'c', 'e')).toMatchObject({
+      message: 'must be one of "a", "b"',
+      received: '"c"'
+    });
+    expect(validateFieldValue({ type: 'array', items: { type: 'number' } }, [1, 'x'], 'xs'))
+      .toMatchObject({ path: 'xs[1]', message: 'must be of type number', received: 'string' });
+    expect(validateFieldValue(author, { tags: [] }, 'author')).toMatchObject({
+      path: 'author.name',
+      message: 'is required'
+    });
+    expect(validateFieldValue(author, { name: 'Ada', tags: [1] }, 'author')?.path)
+      .toBe('author.tags[0]');
+  });
+
+  it('should build prompt examples', () => {
+    expect(exampleFieldValue(author)).toBe('{"name": "your answer here", "tags": ["your answer here"]}');
+    expect(exampleFieldValue({ type: 'enum', values: ['pos', 'neg'] })).toBe('"pos"');
+  });
+
+  it('should coerce raw text into typed values', () => {
+    expect(coerceFieldValue({ type: 'integer' }, '42 items')).toBe(42);
+    expect(coerceFieldValue({ type: 'enum', values: ['Positive', 'Negative'] }, '"positive"'))
+      .toBe('Positive');
+    expect(coerceFieldValue({ type: 'array', items: { type: 'number' } }, '1, 2, 3')).toEqual([1, 2, 3]);
+    expect(coerceFieldValue({ type: 'array', items: { type: 'string' } }, '["a","b"]')).toEqual(['a', 'b']);
+    expect(coerceFieldValue({ type: 'object' }, '{"a": 1}')).toEqual({ a: 1 });
+    expect(coerceFieldValue({ type: 'object' }, 'null')).toEqual({});
+  });
+});
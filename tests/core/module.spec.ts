@@ -290,4 +290,45 @@ describe('Module Base Class', () => {
     const resultWithOptional = await moduleWithOptional.run({ required: 'test', optional: 42 });
     expect(resultWithOptional.output).toBe('test:42');
   });
+
+  it('should report nested paths for rich field types', async () => {
+    class TaggingModule extends Module<{ tags: string[]; mood: string }, { output: string }> {
+      constructor() {
+        super({
+          name: 'TaggingModule',
+          signature: {
+            inputs: [
+              { name: 'tags', type: 'array', items: { type: 'string' }, required: true },
+              { name: 'mood', type: 'enum', values: ['happy', 'sad'], required: true }
+            ],
+            outputs: [{ name: 'output', type: 'string' }]
+          },
+          strategy: 'Predict'
+        });
+      }
+
+      async run(input: { tags: string[]; mood: string }): Promise<{ output: string }> {
+        this.validateInput(input);
+        return { output: input.tags.join(',') };
+      }
+    }
+
+    const module = new TaggingModule();
+
+    await expect(module.run({ tags: ['a', 2 as any], mood: 'happy' }))
+      .rejects.toThrow('Invalid input: tags[1] must be of type string');
+    await expect(module.run({ tags: [], mood: 'angry' }))
+      .rejects.toThrow('Invalid input: mood must be one of "happy", "sad"');
+    await expect(module.run({ tags: ['a'], mood: 'sad' })).resolves.toEqual({ output: 'a' });
+  });
+
+  it('should merge generation options and bind an LM with set()', () => {
+    const lm = { generate: async () => '' };
+
+    const returned = testModule.set({ lm, temperature: 0 }).set({ maxTokens: 50, topP: undefined });
+
+    expect(returned).toBe(testModule);
+    expect(testModule.lm).toBe(lm);
+    expect(testModule.generationOptions).toEqual({ temperature: 0, maxTokens: 50 });
+  });
 });
@@ -0,0 +1,107 @@
+import { Program } from '../../src/core/program';
+import { Module } from '../../src/core/module';
+import { parseSignature } from '../../src/core/signature';
+import { PredictModule } from '../../src/modules/predict';
+import { ChainOfThought } from '../../src/modules/chain-of-thought';
+
+class Summarize extends Program<{ text: string }, { summary: string }> {
+  hops = [
+    new PredictModule({ name: 'Hop1', signature: parseSignature('text -> notes') }),
+    new PredictModule({ name: 'Hop2', signature: parseSignature('notes -> refined') })
+  ];
+  stages = { final: new ChainOfThought({ name: 'Final', signature: parseSignature('refined -> summary') }) };
+  label = 'not a module';
+
+  constructor() {
+    super({ name: 'Summarize', signature: 'text -> summary' });
+  }
+
+  async forward({ text }: { text: string }): Promise<{ summary: string }> {
+    return { summary: text.slice(0, 5) };
+  }
+}
+
+class Outer extends Program<{ text: string }, { summary: string }> {
+  inner = new Summarize();
+  polish = new PredictModule({ name: 'Polish', signature: parseSignature('summary -> summary2') });
+
+  constructor() {
+    super({ name: 'Outer' });
+  }
+
+  async forward(input: { text: string }): Promise<{ summary: string }> {
+    return this.inner.run(input);
+  }
+}
+
+describe('Program', () => {
+  it('should name submodules by property path, including nested programs', () => {
+    const names = new Outer().namedSubmodules().map(([name]) => name);
+
+    expect(names).toEqual([
+      'inner',
+      'inner.hops[0]',
+      'inner.hops[1]',
+      'inner.stages.final',
+      'polish'
+    ]);
+  });
+
+  it('should list predictors and parameters without nested programs', () => {
+    const program = new Outer();
+
+    expect(program.namedPredictors().map(([name]) => name))
+      .toEqual(['inner.hops[0]', 'inner.hops[1]', 'inner.stages.final', 'polish']);
+    expect(program.parameters()).toEqual(program.predictors());
+    expect(program.predictors()[2]).toBeInstanceOf(ChainOfThought);
+  });
+
+  it('should validate against its signature when running', async () => {
+    const program = new Summarize();
+
+    await expect(program.run({ text: 'Hello world' })).resolves.toEqual({ summary: 'Hello' });
+    await expect(program.run({} as any)).rejects.toThrow('Missing required input field: text');
+  });
+
+  it('should deep clone submodules and signatures but share the LM', () => {
+    const lm = { generate: async () => '' };
+    const program = new Outer();
+    program.polish.set({ lm, temperature: 0.1 });
+
+    const copy = program.clone();
+    copy.polish.set({ temperature: 0.9 });
+    copy.inner.hops[0].signature.outputs[0].description = 'changed';
+
+    expect(copy).toBeInstanceOf(Outer);
+    expect(copy.inner).not.toBe(program.inner);
+    expect(copy.inner.hops[1]).toBeInstanceOf(PredictModule);
+    expect(copy.polish.lm).toBe(lm);
+    expect(program.polish.generationOptions.temperature).toBe(0.1);
+    expect(program.inner.hops[0].signature.outputs[0].description).toBeUndefined();
+  });
+
+  it('should replace predictors in place with mapNamedPredictors', () => {
+    const program = new Outer();
+    const seen: string[] = [];
+
+    program.mapNamedPredictors((name, predictor) => {
+      seen.push(name);
+      return name === 'inner.hops[1]'
+        ? new PredictModule({ name: 'Replaced', signature: predictor.signature })
+        : predictor;
+    });
+
+    expect(seen).toEqual(['inner.hops[0]', 'inner.hops[1]', 'inner.stages.final', 'polish']);
+    expect(program.inner.hops[1].name).toBe('Replaced');
+  });
+
+  it('should reset every predictor', () => {
+    const program = new Outer();
+    const reset = jest.spyOn(Module.prototype, 'reset');
+
+    program.reset();
+
+    expect(reset).toHaveBeenCalledTimes(4);
+    reset.mockRestore();
+  });
+});
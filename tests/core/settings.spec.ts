@@ -0,0 +1,96 @@
+import { configure, configureLM, getLM, getSettings, withLM, withSettings, withTrace } from '../../src/core/settings';
+import { PredictModule } from '../../src/modules/predict';
+import { parseSignature } from '../../src/core/signature';
+import { configureLM as configureLMFromLM, getLM as getLMFromLM } from '../../src/lm';
+import { configureLM as configureLMFromIndex } from '../../src/index';
+import { getAdapter } from '../../src/adapters/settings';
+import { ChatAdapter } from '../../src/adapters/chat';
+import { JSONAdapter } from '../../src/adapters/json';
+import { LMDriver, LMError } from '../../src/lm/base';
+
+describe('Settings', () => {
+  const createLM = (name: string): LMDriver => ({ generate: async () => name });
+  const globalLM = createLM('global');
+
+  beforeEach(() => {
+    configure({ lm: globalLM, adapter: undefined });
+  });
+
+  afterEach(() => {
+    configureLM(null as any);
+  });
+
+  it('should share one LM registry across entry points', () => {
+    const fromIndex = createLM('index');
+    configureLMFromIndex(fromIndex);
+    expect(getLM()).toBe(fromIndex);
+    expect(getLMFromLM()).toBe(fromIndex);
+
+    const fromLM = createLM('lm');
+    configureLMFromLM(fromLM);
+    expect(getLM()).toBe(fromLM);
+  });
+
+  it('should throw when no LM is configured', () => {
+    configureLM(null as any);
+    expect(() => getLM()).toThrow(LMError);
+  });
+
+  it('should scope an LM override to the callback', async () => {
+    const scoped = createLM('scoped');
+
+    const result = await withLM(scoped, async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      return getLM().generate('');
+    });
+
+    expect(result).toBe('scoped');
+    expect(getLM()).toBe(globalLM);
+  });
+
+  it('should keep concurrent scopes isolated', async () => {
+    const run = (name: string, delay: number): Promise<string> =>
+      withLM(createLM(name), async () => {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return getLM().generate('');
+      });
+
+    await expect(Promise.all([run('a', 10), run('b', 1), run('c', 5)]))
+      .resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('should nest overrides and ignore undefined values', () => {
+    const adapter = new JSONAdapter();
+    const inner = createLM('inner');
+
+    withSettings({ adapter }, () => {
+      withSettings({ lm: inner, adapter: undefined }, () => {
+        expect(getSettings()).toEqual({ lm: inner, adapter });
+      });
+      expect(getAdapter()).toBe(adapter);
+      expect(getLM()).toBe(globalLM);
+    });
+  });
+
+  it('should default to the chat adapter', () => {
+    expect(getAdapter()).toBeInstanceOf(ChatAdapter);
+  });
+
+  it('should record predictor calls made inside withTrace', async () => {
+    const module = new PredictModule<{ name: string }, { greeting: string }>({
+      name: 'Greeter',
+      signature: parseSignature('name -> greeting'),
+      lm: { generate: async () => '[[ ## greeting ## ]]\nHi' }
+    });
+
+    const { result, trace } = await withTrace(() => module.run({ name: 'Ada' }));
+    await module.run({ name: 'Bob' });
+
+    expect(result).toEqual({ greeting: 'Hi' });
+    expect(trace).toEqual([
+      { module, input: { name: 'Ada' }, output: { greeting: 'Hi' }, messages: expect.any(Array) }
+    ]);
+    expect(trace[0].messages!.map(message => message.role)).toEqual(['system', 'user']);
+    expect(trace[0].messages![1].content).toContain('Ada');
+  });
+});
@@ -1,4 +1,11 @@
-import { isValidFieldDefinition, FieldDefinition } from '../../src/core/signature';
+import {
+  isValidFieldDefinition,
+  FieldDefinition,
+  parseSignature,
+  signatureToString,
+  resolveSignature,
+  describeFieldType
+} from '../../src/core/signature';
 
 describe('Field Definition Validation', () => {
   it('should validate correct field definitions', () => {
@@ -38,6 +45,28 @@ describe('Field Definition Validation', () => {
     });
   });
 
+  it('should validate rich field types', () => {
+    expect(isValidFieldDefinition({ name: 'tags', type: 'array', items: { type: 'string' } })).toBe(true);
+    expect(isValidFieldDefinition({ name: 'mood', type: 'enum', values: ['happy', 'sad'] })).toBe(true);
+    expect(isValidFieldDefinition({ name: 'kind', type: 'literal', value: 'user' })).toBe(true);
+    expect(isValidFieldDefinition({ name: 'count', type: 'integer' })).toBe(true);
+    expect(isValidFieldDefinition({ name: 'when', type: 'date' })).toBe(true);
+    expect(isValidFieldDefinition({
+      name: 'author',
+      type: 'object',
+      properties: [{ name: 'name', type: 'string', required: true }]
+    })).toBe(true);
+  });
+
+  it('should reject rich field types with missing parameters', () => {
+    expect(isValidFieldDefinition({ name: 'tags', type: 'array' })).toBe(false);
+    expect(isValidFieldDefinition({ name: 'tags', type: 'array', items: { type: 'bogus' } })).toBe(false);
+    expect(isValidFieldDefinition({ name: 'mood', type: 'enum', values: [] })).toBe(false);
+    expect(isValidFieldDefinition({ name: 'mood', type: 'enum', values: [{}] })).toBe(false);
+    expect(isValidFieldDefinition({ name: 'kind', type: 'literal' })).toBe(false);
+    expect(isValidFieldDefinition({ name: 'author', type: 'object', properties: [{ type: 'string' }] })).toBe(false);
+  });
+
   it('should reject null or undefined fields', () => {
     expect(isValidFieldDefinition(null)).toBe(false);
     expect(isValidFieldDefinition(undefined)).toBe(false);
@@ -77,3 +106,106 @@ describe('Field Definition Validation', () => {
     })).toBe(false);
   });
 });
+
+describe('Signature DSL', () => {
+  it('should parse inputs, outputs and optional markers', () => {
+    const signature = parseSignature(
+      'question: string, context?: string -> answer: string, confidence: number'
+    );
+
+    expect(signature.inputs).toEqual([
+      { name: 'question', type: 'string', required: true },
+      { name: 'context', type: 'string', required: false }
+    ]);
+    expect(signature.outputs).toEqual([
+      { name: 'answer', type: 'string', required: true },
+      { name: 'confidence', type: 'number', required: true }
+    ]);
+  });
+
+  it('should default untyped fields to string', () => {
+    const signature = parseSignature('question -> answer');
+    expect(signature.inputs[0].type).toBe('string');
+    expect(signature.outputs[0].type).toBe('string');
+  });
+
+  it('should parse field descriptions and instruction docstrings', () => {
+    const signature = parseSignature(
+      '"""Answer with a single word.""" question: string "the user question, verbatim" -> answer'
+    );
+
+    expect(signature.instructions).toBe('Answer with a single word.');
+    expect(signature.inputs[0].description).toBe('the user question, verbatim');
+  });
+
+  it('should prefer explicit instructions over the docstring', () => {
+    const signature = parseSignature('"""Docstring""" question -> answer', 'Explicit');
+    expect(signature.instructions).toBe('Explicit');
+  });
+
+  it('should round-trip through the serializer', () => {
+    const spec = '"""Classify.""" text: string "input text", hint?: string -> label: string, score: number';
+    const signature = parseSignature(spec);
+
+    expect(signatureToString(signature)).toBe(spec);
+    expect(parseSignature(signatureToString(signature))).toEqual(signature);
+  });
+
+  it('should reject malformed signatures', () => {
+    expect(() => parseSignature('question answer')).toThrow('expected exactly one "->"');
+    expect(() => parseSignature('question: text -> answer')).toThrow('unknown type "text"');
+    expect(() => parseSignature('1question -> answer')).toThrow('cannot parse field');
+    expect(() => parseSignature('question -> question')).toThrow('duplicate field name "question"');
+    expect(() => parseSignature('question ->')).toThrow('at least one output field');
+  });
+
+  it('should parse rich field types', () => {
+    const signature = parseSignature(
+      'text -> tags: string[], sentiment: enum(positive, negative, "very neutral"), ' +
+      'kind: literal(review), stars: integer, author: { name: string, age?: number }, posted: date'
+    );
+
+    expect(signature.outputs).toEqual([
+      { name: 'tags', type: 'array', items: { type: 'string' }, required: true },
+      { name: 'sentiment', type: 'enum', values: ['positive', 'negative', 'very neutral'], required: true },
+      { name: 'kind', type: 'literal', value: 'review', required: true },
+      { name: 'stars', type: 'integer', required: true },
+      {
+        name: 'author',
+        type: 'object',
+        properties: [
+          { name: 'name', type: 'string', required: true },
+          { name: 'age', type: 'number', required: false }
+        ],
+        required: true
+      },
+      { name: 'posted', type: 'date', required: true }
+    ]);
+    expect(parseSignature(signatureToString(signature))).toEqual(signature);
+  });
+
+  it('should describe field types in signature syntax', () => {
+    expect(describeFieldType({ type: 'array', items: { type: 'enum', values: ['a', 1, true] } }))
+      .toBe('enum(a, 1, true)[]');
+    expect(describeFieldType({ type: 'literal', value: 'true' })).toBe('literal("true")');
+    expect(describeFieldType({ type: 'object' })).toBe('object');
+  });
+
+  it('should resolve both string and object signatures', () => {
+    const fromString = resolveSignature('question -> answer');
+    expect(fromString.outputs[0].name).toBe('answer');
+
+    const object = {
+      inputs: [{ name: 'question', type: 'string' as const }],
+      outputs: [{ name: 'answer', type: 'string' as const }]
+    };
+    expect(resolveSignature(object)).toBe(object);
+  });
+
+  it('should reject invalid string signatures but pass objects through unchanged', () => {
+    expect(() => resolveSignature('question ->')).toThrow('at least one output field is required');
+
+    const empty = { inputs: [], outputs: [] };
+    expect(resolveSignature(empty)).toBe(empty);
+  });
+});
@@ -0,0 +1,87 @@
+import { Program } from '../../src/core/program';
+import { parseSignature } from '../../src/core/signature';
+import { validateProgramState } from '../../src/core/state';
+import { PredictModule } from '../../src/modules/predict';
+
+class QA extends Program<{ question: string }, { answer: string }> {
+  draft = new PredictModule({ name: 'Draft', signature: parseSignature('question -> draft') });
+  answer = new PredictModule({ name: 'Answer', signature: parseSignature('question, draft -> answer') });
+
+  constructor() {
+    super({ name: 'QA' });
+  }
+
+  async forward({ question }: { question: string }): Promise<{ answer: string }> {
+    return { answer: question };
+  }
+}
+
+describe('Program state', () => {
+  it('should round-trip demos, instructions and generation options through JSON', () => {
+    const program = new QA();
+    program.answer.demos = [{ input: { question: 'q', draft: 'd' }, output: { answer: 'a' } }];
+    program.answer.signature.instructions = 'Answer briefly.';
+    program.draft.set({ temperature: 0.2 });
+
+    const state = JSON.parse(JSON.stringify(program.saveState()));
+    const restored = new QA().loadState(state);
+
+    expect(restored.answer.demos).toEqual(program.answer.demos);
+    expect(restored.answer.signature.instructions).toBe('Answer briefly.');
+    expect(restored.draft.generationOptions).toEqual({ temperature: 0.2 });
+  });
+
+  it('should only save field metadata when asked', () => {
+    const module = new PredictModule({ name: 'Classify', signature: parseSignature('text -> label: number') });
+
+    expect(module.saveState().predictors.self.signature.outputs).toEqual([{ name: 'label' }]);
+    expect(module.saveState({ fieldMeta: true }).predictors.self.signature.outputs[0])
+      .toMatchObject({ name: 'label', type: 'number' });
+  });
+
+  it('should reject state for a program with different predictors', () => {
+    const state = new QA().saveState();
+    delete state.predictors.draft;
+
+    expect(() => new QA().loadState(state)).toThrow('expected predictors [answer, draft], got [answer]');
+  });
+
+  it('should reject state whose fields do not match', () => {
+    const state = new QA().saveState();
+    state.predictors.answer.signature.inputs = [{ name: 'question' }];
+
+    expect(() => new QA().loadState(state))
+      .toThrow('Cannot load state for "answer": expected input fields [question, draft], got [question]');
+  });
+
+  it('should reject saved field metadata with an invalid type', () => {
+    const module = new PredictModule({ name: 'Classify', signature: parseSignature('text -> label') });
+    const state = module.saveState({ fieldMeta: true });
+    (state.predictors.self.signature.outputs[0] as Record<string, unknown>).type = 'decimal';
+
+    expect(() => module.loadState(state)).toThrow('Cannot load state for "self": invalid field');
+    expect(module.signature.outputs[0].type).toBe('string');
+  });
+
+  it('should replace the signature rather than mutate a shared one', () => {
+    const shared = parseSignature('text -> label');
+    const first = new PredictModule({ name: 'First', signature: shared });
+    const second = new PredictModule({ name: 'Second', signature: shared });
+    const state = first.saveState();
+    state.predictors.self.signature.instructions = 'Label the text.';
+
+    first.loadState(state);
+
+    expect(first.signature.instructions).toBe('Label the text.');
+    expect(second.signature.instructions).toBeUndefined();
+    expect(shared.instructions).toBeUndefined();
+  });
+
+  it('should reject malformed or unsupported state', () => {
+    expect(() => validateProgramState(null)).toThrow('Invalid program state');
+    expect(() => validateProgramState({ version: 2, predictors: {} }))
+      .toThrow('Unsupported program state version: 2 (expected 1)');
+    expect(() => validateProgramState({ version: 1, predictors: { self: { demos: [] } } }))
+      .toThrow('predictor "self" has no signature');
+  });
+});
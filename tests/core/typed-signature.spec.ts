@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import {
+  defineSignature,
+  zodToFields,
+  fieldsToZod,
+  isTypedSignature
+} from '../../src/core/typed-signature';
+import { defineModule } from '../../src/core/factory';
+import { PredictModule } from '../../src/modules/predict';
+import { configureLM } from '../../src/index';
+import { DummyLM } from '../../src/lm/dummy';
+
+describe('Typed Signatures', () => {
+  const review = defineSignature({
+    inputs: z.object({
+      text: z.string().describe('review text'),
+      tags: z.array(z.string()).optional()
+    }),
+    outputs: z.object({
+      sentiment: z.enum(['positive', 'negative']),
+      stars: z.number().int().min(1).max(5),
+      author: z.object({ name: z.string() })
+    }),
+    instructions: 'Classify the review.'
+  });
+
+  it('should derive field definitions from Zod schemas', () => {
+    expect(isTypedSignature(review)).toBe(true);
+    expect(review.instructions).toBe('Classify the review.');
+    expect(review.inputs).toEqual([
+      { name: 'text', type: 'string', required: true, description: 'review text' },
+      { name: 'tags', type: 'array', items: { type: 'string' }, required: false }
+    ]);
+    expect(review.outputs).toEqual([
+      { name: 'sentiment', type: 'enum', values: ['positive', 'negative'], required: true },
+      { name: 'stars', type: 'integer', required: true },
+      {
+        name: 'author',
+        type: 'object',
+        properties: [{ name: 'name', type: 'string', required: true }],
+        required: true
+      }
+    ]);
+  });
+
+  it('should convert field definitions back to Zod', () => {
+    const schema = fieldsToZod(review.outputs);
+
+    expect(schema.safeParse({ sentiment: 'positive', stars: 4, author: { name: 'Ada' } }).success)
+      .toBe(true);
+    expect(schema.safeParse({ sentiment: 'meh', stars: 4, author: { name: 'Ada' } }).success)
+      .toBe(false);
+    expect(zodToFields(schema)).toEqual(review.outputs);
+  });
+
+  it('should convert literals, native enums and dates', () => {
+    enum Color { Red = 'red', Blue = 'blue' }
+    const fields = zodToFields(z.object({
+      kind: z.literal('review'),
+      color: z.nativeEnum(Color),
+      level: z.union([z.literal(1), z.literal(2)]),
+      at: z.date(),
+      iso: z.string().datetime(),
+      meta: z.record(z.string()).default({})
+    }));
+
+    expect(fields.map(f => [f.type, f.required])).toEqual([
+      ['literal', true],
+      ['enum', true],
+      ['enum', true],
+      ['date', true],
+      ['date', true],
+      ['object', false]
+    ]);
+    expect(fields[1].values).toEqual(['red', 'blue']);
+    expect(fields[2].values).toEqual([1, 2]);
+  });
+
+  it('should reject unsupported Zod types', () => {
+    expect(() => zodToFields(z.object({ fn: z.function() })))
+      .toThrow('Unsupported Zod type ZodFunction for field "fn"');
+  });
+
+  describe('with modules', () => {
+    beforeAll(async () => {
+      const lm = new DummyLM(new Map([
+        ['good', '{"sentiment":"positive","stars":5,"author":{"name":"Ada"}}'],
+        ['bad', '{"sentiment":"positive","stars":9,"author":{"name":"Ada"}}'],
+        ['anon', '{"sentiment":"negative","stars":1,"author":{}}']
+      ]));
+      await lm.init();
+      configureLM(lm);
+    });
+
+    it('should infer input and output types', async () => {
+      const module = defineModule({
+        name: 'Review',
+        signature: review,
+        promptTemplate: ({ text }) => text
+      });
+
+      const result = await module.run({ text: 'good' });
+      const stars: number = result.stars;
+      expect(stars).toBe(5);
+      expect(result.author.name).toBe('Ada');
+    });
+
+    it('should report the exact path and reason of validation errors', async () => {
+      const module = new PredictModule({
+        name: 'Review',
+        signature: review,
+        promptTemplate: ({ text }) => text
+      });
+
+      await expect(module.run({ text: 123 as any }))
+        .rejects.toThrow('Invalid input: text expected string, received number');
+      await expect(module.run({ text: 'ok', tags: ['a', 1 as any] }))
+        .rejects.toThrow('Invalid input: tags[1] expected string, received number');
+      await expect(module.run({} as any))
+        .rejects.toThrow('Missing required input field: text');
+      await expect(module.run({ text: 'bad' }))
+        .rejects.toThrow('Invalid output: stars number must be less than or equal to 5');
+      await expect(module.run({ text: 'anon' }))
+        .rejects.toThrow('Invalid output: author.name is required');
+    });
+  });
+});
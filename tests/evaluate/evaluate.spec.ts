@@ -0,0 +1,128 @@
+import { Evaluate, EvaluationAbortedError, resultsToCSV, resultsToJSON } from '../../src/evaluate';
+import { Module } from '../../src/core/module';
+import { Pipeline } from '../../src/core/pipeline';
+import { Example, Prediction } from '../../src/core/example';
+import { parseSignature } from '../../src/core/signature';
+
+class Echo extends Module<{ question: string }, { answer: string }> {
+  active = 0;
+  maxActive = 0;
+
+  constructor(private readonly delayMs = 0) {
+    super({ name: 'Echo', signature: parseSignature('question -> answer'), strategy: 'Predict' });
+  }
+
+  async run({ question }: { question: string }): Promise<{ answer: string }> {
+    this.active++;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    await new Promise(resolve => setTimeout(resolve, question === 'slow' ? 200 : this.delayMs));
+    this.active--;
+    if (question === 'fail') {
+      throw new Error('boom');
+    }
+    return { answer: question.toUpperCase() };
+  }
+}
+
+const exactMatch = (_input: any, output: any, expected?: any): number =>
+  output.answer === expected?.answer ? 1 : 0;
+
+describe('Evaluate', () => {
+  const devset = [
+    { input: { question: 'a' }, output: { answer: 'A' } },
+    { input: { question: 'b' }, output: { answer: 'wrong' } },
+    { input: { question: 'c' }, output: { answer: 'C' } },
+    { input: { question: 'd' }, output: { answer: 'D' } }
+  ];
+
+  it('should average metric scores and keep results in devset order', async () => {
+    const result = await new Evaluate(exactMatch).run(new Echo(), devset);
+
+    expect(result.score).toBe(0.75);
+    expect(result.total).toBe(4);
+    expect(result.errors).toBe(0);
+    expect(result.results.map(r => r.index)).toEqual([0, 1, 2, 3]);
+    expect(result.results[1]).toMatchObject({ output: { answer: 'B' }, expected: { answer: 'wrong' }, score: 0 });
+  });
+
+  it('should run examples concurrently up to numThreads', async () => {
+    const program = new Echo(10);
+    await new Evaluate(exactMatch, { numThreads: 2 }).run(program, devset);
+    expect(program.maxActive).toBe(2);
+  });
+
+  it('should score failed and timed-out examples with the failure score', async () => {
+    const result = await new Evaluate(exactMatch, { timeoutMs: 50 }).run(new Echo(), [
+      ...devset.slice(0, 1),
+      { input: { question: 'fail' }, output: { answer: 'FAIL' } },
+      { input: { question: 'slow' }, output: { answer: 'SLOW' } }
+    ]);
+
+    expect(result.errors).toBe(2);
+    expect(result.score).toBeCloseTo(1 / 3);
+    expect(result.results[1].error).toBe('boom');
+    expect(result.results[2].error).toBe('Timed out after 50ms');
+  });
+
+  it('should abort when more than maxErrors examples fail', async () => {
+    const failing = [{ input: { question: 'fail' } }, { input: { question: 'fail' } }];
+    await expect(new Evaluate(exactMatch, { maxErrors: 1 }).run(new Echo(), failing))
+      .rejects.toThrow('Evaluation aborted: 2 examples failed (maxErrors: 1)');
+  });
+
+  it('should keep the partial results on the abort error', async () => {
+    const devset = [
+      { input: { question: 'a' }, output: { answer: 'A' } },
+      { input: { question: 'fail' } },
+      { input: { question: 'fail' } },
+      { input: { question: 'b' }, output: { answer: 'B' } }
+    ];
+
+    const error = await new Evaluate(exactMatch, { maxErrors: 1 }).run(new Echo(), devset).catch(e => e);
+
+    expect(error).toBeInstanceOf(EvaluationAbortedError);
+    expect(error.result).toMatchObject({ total: 4, errors: 2 });
+    expect(error.result.results.map((r: { index: number }) => r.index)).toEqual([0, 1, 2]);
+    expect(error.result.score).toBeCloseTo(1 / 3);
+  });
+
+  it('should report progress and accept Examples and pipelines', async () => {
+    const onProgress = jest.fn();
+    const examples = [new Example({ question: 'x', answer: 'X' }).withInputs('question')];
+
+    const result = await new Evaluate(exactMatch, { onProgress }).run(new Pipeline([new Echo()]), examples);
+
+    expect(result.score).toBe(1);
+    expect(onProgress).toHaveBeenCalledWith({ completed: 1, total: 1, errors: 0, score: 1 });
+  });
+
+  it('should give metrics the field values of Predictions', async () => {
+    class Predictor extends Module<{ question: string }, Prediction<{ answer: string }>> {
+      constructor() {
+        super({ name: 'Predictor', signature: parseSignature('question -> answer'), strategy: 'Predict' });
+      }
+
+      async run({ question }: { question: string }): Promise<Prediction<{ answer: string }>> {
+        return Prediction.fromCompletions([{ answer: question.toUpperCase() }, { answer: question }]);
+      }
+    }
+
+    const result = await new Evaluate(exactMatch).run(new Predictor(), [
+      { input: { question: 'x' }, output: new Prediction({ answer: 'X' }) }
+    ]);
+
+    expect(result.score).toBe(1);
+    expect(result.results[0].output).toEqual({ answer: 'X' });
+  });
+
+  it('should export results as JSON and CSV', async () => {
+    const result = await new Evaluate(exactMatch).run(new Echo(), [
+      { input: { question: 'a, "quoted"' }, output: { answer: 'A' } }
+    ]);
+
+    expect(JSON.parse(resultsToJSON(result))[0].score).toBe(0);
+    const [header, row] = resultsToCSV(result).split('\n');
+    expect(header).toBe('index,input.question,expected.answer,output.answer,score,error,durationMs');
+    expect(row).toMatch(/^0,"a, ""quoted""",A,"A, ""QUOTED""",0,,\d+$/);
+  });
+});
@@ -0,0 +1,85 @@
+import { LMJudge, semanticF1, answerCorrectness } from '../../src/evaluate/judge';
+import { Evaluate } from '../../src/evaluate/evaluate';
+import { Module } from '../../src/core/module';
+import { parseSignature } from '../../src/core/signature';
+import { LMDriver } from '../../src/lm/base';
+
+const judgeLM = (response: string): LMDriver & { chat: jest.Mock } => ({
+  generate: jest.fn(),
+  chat: jest.fn().mockResolvedValue(response)
+});
+
+describe('LMJudge', () => {
+  it('should pass inputs, gold and predicted values and score the boolean output', async () => {
+    const lm = judgeLM('[[ ## correct ## ]]\ntrue\n\n[[ ## rationale ## ]]\nSame city.');
+    const judge = new LMJudge({ signature: 'question, gold, predicted -> correct: boolean, rationale', lm });
+
+    const score = await judge.metric({ question: 'Capital of France?' }, { answer: 'Paris' }, { answer: 'paris' });
+    const prompt = lm.chat.mock.calls[0][0].map((m: any) => m.content).join('\n');
+
+    expect(score).toBe(1);
+    expect(prompt).toContain('[[ ## question ## ]]\nCapital of France?');
+    expect(prompt).toContain('[[ ## gold ## ]]\nparis');
+    expect(prompt).toContain('[[ ## predicted ## ]]\nParis');
+  });
+
+  it('should reuse judgements for identical inputs when caching', async () => {
+    const lm = judgeLM('[[ ## score ## ]]\n0.5');
+    const judge = new LMJudge({ signature: 'gold, predicted -> score: number', lm, cache: true });
+
+    await judge.metric({}, { answer: 'a' }, { answer: 'b' });
+    expect(await judge.metric({}, { answer: 'a' }, { answer: 'b' })).toBe(0.5);
+    await judge.metric({}, { answer: 'c' }, { answer: 'b' });
+
+    expect(lm.chat).toHaveBeenCalledTimes(2);
+  });
+
+  it('should require a score field or function', () => {
+    expect(() => new LMJudge({ signature: 'gold, predicted -> verdict' }))
+      .toThrow('needs a boolean or number output field');
+  });
+
+  it('should compute semantic F1 from recall and precision', async () => {
+    const lm = judgeLM('[[ ## recall ## ]]\n1\n\n[[ ## precision ## ]]\n0.5');
+    expect(await semanticF1({ lm })({ question: 'q' }, { answer: 'x' }, { answer: 'y' })).toBeCloseTo(2 / 3);
+  });
+
+  it('should stringify structured questions and answers for the built-in judges', async () => {
+    const lm = judgeLM('[[ ## rationale ## ]]\nSame.\n\n[[ ## correct ## ]]\ntrue');
+    const metric = answerCorrectness({ lm, questionField: 'query' });
+
+    await metric({ query: { city: 'Paris' } }, { answer: ['a', 'b'] }, { answer: 'a' });
+    const prompt = lm.chat.mock.calls[0][0].map((m: any) => m.content).join('\n');
+
+    expect(prompt).toContain('[[ ## question ## ]]\n{"city":"Paris"}');
+    expect(prompt).toContain('[[ ## predicted ## ]]\n["a","b"]');
+  });
+
+  it('should reject inputs missing the configured question field', async () => {
+    const lm = judgeLM('[[ ## recall ## ]]\n1\n\n[[ ## precision ## ]]\n1');
+
+    await expect(semanticF1({ lm, questionField: 'query' })({ question: 'q' }, { answer: 'x' }, { answer: 'x' }))
+      .rejects.toThrow('Judge input is missing the question field "query"');
+    expect(lm.chat).not.toHaveBeenCalled();
+  });
+
+  it('should work as an async metric in Evaluate', async () => {
+    class Echo extends Module<{ question: string }, { answer: string }> {
+      constructor() {
+        super({ name: 'Echo', signature: parseSignature('question -> answer'), strategy: 'Predict' });
+      }
+
+      async run({ question }: { question: string }): Promise<{ answer: string }> {
+        return { answer: question };
+      }
+    }
+
+    const lm = judgeLM('[[ ## rationale ## ]]\nWrong.\n\n[[ ## correct ## ]]\nfalse');
+    const result = await new Evaluate(answerCorrectness({ lm })).run(new Echo(), [
+      { input: { question: 'q' }, output: { answer: 'a' } }
+    ]);
+
+    expect(result.errors).toBe(0);
+    expect(result.score).toBe(0);
+  });
+});
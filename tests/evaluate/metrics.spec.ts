@@ -0,0 +1,77 @@
+import {
+  normalizeAnswer,
+  exactMatch,
+  answerMatch,
+  tokenF1,
+  contains,
+  passageRecall,
+  numericMatch,
+  jsonFieldMatch,
+  weighted,
+  passes
+} from '../../src/evaluate/metrics';
+
+describe('metrics', () => {
+  it('should normalize answers', () => {
+    expect(normalizeAnswer('  The Eiffel-Tower, Paris! ')).toBe('eiffel tower paris');
+  });
+
+  it('should compare exact values of the first expected field by default', () => {
+    expect(exactMatch()({}, { answer: ' Paris ' }, { answer: 'Paris' })).toBe(1);
+    expect(exactMatch()({}, { answer: 'paris' }, { answer: 'Paris' })).toBe(0);
+    expect(exactMatch({ caseSensitive: false })({}, { answer: 'paris' }, { answer: 'Paris' })).toBe(1);
+    expect(exactMatch({ field: 'tags' })({}, { tags: ['a', 'b'] }, { tags: [['a', 'b']] })).toBe(1);
+    expect(exactMatch()({}, { answer: 'Paris' })).toBe(0);
+  });
+
+  it('should match normalized answers against any acceptable answer', () => {
+    const metric = answerMatch();
+    expect(metric({}, { answer: 'the Beatles' }, { answer: ['Beatles', 'The Fab Four'] })).toBe(1);
+    expect(metric({}, { answer: 'Stones' }, { answer: 'Beatles' })).toBe(0);
+  });
+
+  it('should compute token F1', () => {
+    expect(tokenF1()({}, { answer: 'Paris France' }, { answer: 'Paris' })).toBeCloseTo(2 / 3);
+    expect(tokenF1()({}, { answer: 'Lyon' }, { answer: ['Paris', 'Lyon'] })).toBe(1);
+    expect(tokenF1()({}, { answer: 'Rome' }, { answer: 'Paris' })).toBe(0);
+  });
+
+  it('should check containment case-insensitively by default', () => {
+    expect(contains()({}, { answer: 'It is PARIS.' }, { answer: 'paris' })).toBe(1);
+    expect(contains({ caseSensitive: true })({}, { answer: 'It is PARIS.' }, { answer: 'paris' })).toBe(0);
+  });
+
+  it('should compute passage recall', () => {
+    const metric = passageRecall({ field: 'context', expectedField: 'gold' });
+    const output = { context: ['Paris is the capital of France.', 'Lima is in Peru.'] };
+    expect(metric({}, output, { gold: ['capital of France', 'Santiago'] })).toBe(0.5);
+  });
+
+  it('should compare numbers with tolerance', () => {
+    expect(numericMatch()({}, { total: '1,000' }, { total: 1000 })).toBe(1);
+    expect(numericMatch({ absolute: 0.5 })({}, { total: 10.4 }, { total: 10 })).toBe(1);
+    expect(numericMatch({ relative: 0.01 })({}, { total: 102 }, { total: 100 })).toBe(0);
+    expect(numericMatch()({}, { total: 'many' }, { total: 3 })).toBe(0);
+  });
+
+  it('should score the fraction of matching JSON fields', () => {
+    const metric = jsonFieldMatch();
+    expect(metric({}, { name: 'Ada', tags: '["x"]', age: 36 }, { name: 'Ada', tags: ['x'], age: 37 })).toBeCloseTo(2 / 3);
+    expect(jsonFieldMatch({ fields: ['name'] })({}, { name: 'Ada' }, { name: 'Ada', age: 1 })).toBe(1);
+  });
+
+  it('should combine metrics by weight and convert scores to pass/fail', () => {
+    const metric = weighted([
+      { metric: exactMatch(), weight: 3 },
+      { metric: contains() }
+    ]);
+    expect(metric({}, { answer: 'Paris, France' }, { answer: 'Paris' })).toBe(0.25);
+    expect(passes(metric, 0.2)({}, { answer: 'Paris, France' }, { answer: 'Paris' })).toBe(true);
+    expect(() => weighted([])).toThrow('at least one metric');
+  });
+
+  it('should combine async metrics into an async metric', async () => {
+    const metric = weighted([{ metric: async () => true }, { metric: () => 0 }]);
+    await expect(metric({}, {}, {})).resolves.toBe(0.5);
+  });
+});
@@ -0,0 +1,32 @@
+import { ChatMessage, LMDriver } from '../../src/lm/base';
+
+/**
+ * Chat-only LM for tests: answers each call with `respond` and records the messages it received
+ */
+export class ChatLM implements LMDriver {
+  readonly calls: ChatMessage[][] = [];
+
+  constructor(private readonly respond: (messages: ChatMessage[]) => string) {}
+
+  async generate(): Promise<string> {
+    throw new Error('chat only');
+  }
+
+  async chat(messages: ChatMessage[]): Promise<string> {
+    this.calls.push(messages);
+    return this.respond(messages);
+  }
+}
+
+export const capitals: Record<string, string> = { France: 'Paris', Peru: 'Lima', Chile: 'Santiago', Japan: 'Tokyo' };
+
+/**
+ * Answer the country in the `question` field with its capital, but only when the
+ * system prompt says the task is about capital cities
+ */
+export function answerCapital(messages: ChatMessage[]): string {
+  const system = messages[0].content;
+  const country = messages[messages.length - 1].content.match(/\[\[ ## question ## \]\]\n(\w+)/)?.[1] ?? '';
+  const answer = system.includes('capital city') ? capitals[country] : 'unknown';
+  return `[[ ## answer ## ]]\n${answer}`;
+}
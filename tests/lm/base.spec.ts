@@ -1,4 +1,4 @@
-import { LMError } from '../../src/lm/base';
+import { LMError, ChatMessage, messagesToPrompt, runChat, runChatDetailed, runChatStream } from '../../src/lm/base';
 
 describe('LM Error', () => {
   it('should create error with cause', () => {
@@ -18,3 +18,101 @@ describe('LM Error', () => {
     expect(lmError.name).toBe('LMError');
   });
 });
+
+describe('Chat Messages', () => {
+  it('should pass a lone user message through unchanged', () => {
+    expect(messagesToPrompt([{ role: 'user', content: 'hello' }])).toBe('hello');
+  });
+
+  it('should flatten multi-turn conversations with role labels', () => {
+    expect(messagesToPrompt([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' },
+      { role: 'user', content: 'Bye' }
+    ])).toBe('System: Be brief.\n\nUser: Hi\n\nAssistant: Hello\n\nUser: Bye\n\nAssistant:');
+  });
+
+  it('should use the driver chat method when available', async () => {
+    const chat = jest.fn().mockResolvedValue('from chat');
+    const generate = jest.fn();
+    const messages: ChatMessage[] = [{ role: 'system', content: 's' }, { role: 'user', content: 'u' }];
+
+    await expect(runChat({ generate, chat }, messages, { temperature: 0 })).resolves.toBe('from chat');
+    expect(chat).toHaveBeenCalledWith(messages, { temperature: 0 });
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to generate with a flattened prompt', async () => {
+    const generate = jest.fn().mockResolvedValue('from generate');
+
+    await expect(runChat({ generate }, [{ role: 'user', content: 'u' }])).resolves.toBe('from generate');
+    expect(generate).toHaveBeenCalledWith('u', undefined);
+  });
+});
+
+describe('Detailed Generation', () => {
+  const messages: ChatMessage[] = [{ role: 'user', content: 'u' }];
+
+  it('should return the driver detailed result with a measured latency', async () => {
+    const chatDetailed = jest.fn().mockResolvedValue({ text: 'hi', finishReason: 'stop' });
+
+    const result = await runChatDetailed({ generate: jest.fn(), chatDetailed }, messages);
+    expect(result.text).toBe('hi');
+    expect(result.finishReason).toBe('stop');
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should keep the latency reported by the driver', async () => {
+    const chatDetailed = jest.fn().mockResolvedValue({ text: 'hi', latencyMs: 42 });
+
+    const result = await runChatDetailed({ generate: jest.fn(), chatDetailed }, messages);
+    expect(result.latencyMs).toBe(42);
+  });
+
+  it('should wrap plain text from drivers without detailed support', async () => {
+    const generate = jest.fn().mockResolvedValue('plain');
+
+    const result = await runChatDetailed({ generate }, messages);
+    expect(result.text).toBe('plain');
+    expect(result.usage).toBeUndefined();
+    expect(result.finishReason).toBeUndefined();
+  });
+
+  it('should prefer generateDetailed over plain chat to keep usage and finish reason', async () => {
+    const chat = jest.fn();
+    const generateDetailed = jest.fn().mockResolvedValue({ text: 'detailed', finishReason: 'length' });
+
+    const result = await runChatDetailed({ generate: jest.fn(), chat, generateDetailed }, messages);
+    expect(result).toMatchObject({ text: 'detailed', finishReason: 'length' });
+    expect(generateDetailed).toHaveBeenCalledWith('u', undefined);
+    expect(chat).not.toHaveBeenCalled();
+  });
+});
+
+describe('Streaming', () => {
+  const collect = async (stream: AsyncIterable<string>): Promise<string[]> => {
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  it('should use the driver streamChat method when available', async () => {
+    const streamChat = async function* () {
+      yield 'a';
+      yield 'b';
+    };
+
+    await expect(collect(runChatStream({ generate: jest.fn(), streamChat }, [{ role: 'user', content: 'u' }])))
+      .resolves.toEqual(['a', 'b']);
+  });
+
+  it('should yield the whole response for drivers without streaming', async () => {
+    const generate = jest.fn().mockResolvedValue('all at once');
+
+    await expect(collect(runChatStream({ generate }, [{ role: 'user', content: 'u' }])))
+      .resolves.toEqual(['all at once']);
+  });
+});
@@ -0,0 +1,146 @@
+import { mkdtempSync, rmSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { CachedLM, DiskCacheBackend, MemoryCacheBackend, withCache } from '../../src/lm/cache';
+import { LMDriver } from '../../src/lm/base';
+
+describe('CachedLM', () => {
+  let calls: number;
+  let lm: LMDriver;
+
+  beforeEach(() => {
+    calls = 0;
+    lm = {
+      generate: async (prompt: string) => `${prompt} #${++calls}`
+    };
+  });
+
+  it('should serve identical requests from the cache', async () => {
+    const cached = withCache(lm);
+
+    await expect(cached.generate('hi')).resolves.toBe('hi #1');
+    await expect(cached.generate('hi')).resolves.toBe('hi #1');
+    await expect(cached.generate('bye')).resolves.toBe('bye #2');
+    expect(cached.getStats()).toEqual({ hits: 1, misses: 2 });
+  });
+
+  it('should key on generation options regardless of property order', async () => {
+    const cached = withCache(lm);
+
+    await cached.generate('hi', { temperature: 0, maxTokens: 10 });
+    await cached.generate('hi', { maxTokens: 10, temperature: 0 });
+    await cached.generate('hi', { temperature: 1, maxTokens: 10 });
+    expect(calls).toBe(2);
+  });
+
+  it('should key chat requests on messages and model', async () => {
+    const a = withCache(lm, { model: 'a' });
+    const backend = new MemoryCacheBackend();
+    const b1 = withCache(lm, { model: 'b', backend });
+    const b2 = withCache(lm, { model: 'b', backend });
+    const messages = [{ role: 'user' as const, content: 'hi' }];
+
+    await a.chat(messages);
+    await b1.chat(messages);
+    await expect(b2.chat(messages)).resolves.toBe('hi #2');
+    expect(calls).toBe(2);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const cached = withCache(lm, { ttlMs: 100 });
+
+    await cached.generate('hi');
+    now.mockReturnValue(1050);
+    await expect(cached.generate('hi')).resolves.toBe('hi #1');
+    now.mockReturnValue(1200);
+    await expect(cached.generate('hi')).resolves.toBe('hi #2');
+    now.mockRestore();
+  });
+
+  it('should skip lookups but refresh entries while bypassed', async () => {
+    const cached = withCache(lm);
+
+    await cached.generate('hi');
+    cached.bypass = true;
+    await expect(cached.generate('hi')).resolves.toBe('hi #2');
+    cached.bypass = false;
+    await expect(cached.generate('hi')).resolves.toBe('hi #2');
+  });
+
+  it('should use a custom key function', async () => {
+    const cached = withCache(lm, { keyFn: request => request.prompt!.toLowerCase() });
+
+    await cached.generate('Hi');
+    await expect(cached.generate('HI')).resolves.toBe('Hi #1');
+  });
+
+  it('should cache streamed responses', async () => {
+    const cached = new CachedLM({
+      generate: jest.fn(),
+      streamChat: async function* () {
+        calls++;
+        yield 'Li';
+        yield 'ma';
+      }
+    });
+    const collect = async (): Promise<string[]> => {
+      const chunks: string[] = [];
+      for await (const chunk of cached.streamChat([{ role: 'user', content: 'Capital of Peru?' }])) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    await expect(collect()).resolves.toEqual(['Li', 'ma']);
+    await expect(collect()).resolves.toEqual(['Lima']);
+    expect(calls).toBe(1);
+  });
+});
+
+describe('MemoryCacheBackend', () => {
+  it('should evict the least recently used entry', async () => {
+    const backend = new MemoryCacheBackend(2);
+
+    await backend.set('a', { result: { text: 'a' } });
+    await backend.set('b', { result: { text: 'b' } });
+    await backend.get('a');
+    await backend.set('c', { result: { text: 'c' } });
+
+    await expect(backend.get('a')).resolves.toBeDefined();
+    await expect(backend.get('b')).resolves.toBeUndefined();
+    expect(backend.size).toBe(2);
+  });
+});
+
+describe('DiskCacheBackend', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'dspy-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across cache instances', async () => {
+    let calls = 0;
+    const lm: LMDriver = { generate: async () => `answer #${++calls}` };
+
+    await withCache(lm, { backend: new DiskCacheBackend(directory) }).generate('hi');
+    const restored = withCache(lm, { backend: new DiskCacheBackend(directory) });
+
+    await expect(restored.generate('hi')).resolves.toBe('answer #1');
+    expect(restored.getStats().hits).toBe(1);
+    expect(readdirSync(directory)).toHaveLength(1);
+  });
+
+  it('should clear stored entries', async () => {
+    const backend = new DiskCacheBackend(directory);
+
+    await backend.set('key', { result: { text: 'value' } });
+    await backend.clear();
+    await expect(backend.get('key')).resolves.toBeUndefined();
+  });
+});
@@ -56,4 +56,25 @@ describe('DummyLM', () => {
     await dummyLM.cleanup();
     await expect(dummyLM.generate('test')).rejects.toThrow(LMError);
   });
+
+  it('should estimate token usage in detailed results', async () => {
+    await dummyLM.init();
+    dummyLM.setResponse('abcdefgh', 'abcd');
+
+    const result = await dummyLM.generateDetailed('abcdefgh');
+    expect(result.text).toBe('abcd');
+    expect(result.usage).toEqual({ promptTokens: 2, completionTokens: 1, totalTokens: 3 });
+    expect(result.finishReason).toBe('stop');
+  });
+
+  it('should stream responses in chunks', async () => {
+    const lm = new DummyLM(new Map([['hi', 'Hello there']]), { chunkSize: 5 });
+    await lm.init();
+
+    const chunks: string[] = [];
+    for await (const chunk of lm.stream('hi')) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual(['Hello', ' ther', 'e']);
+  });
 });
@@ -0,0 +1,174 @@
+import { OpenAILM } from '../../src/lm/providers/openai';
+import { AnthropicLM } from '../../src/lm/providers/anthropic';
+import { ChatMessage } from '../../src/lm/base';
+
+describe('LM Providers', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'Answer in one word.' },
+    { role: 'user', content: 'Capital of France?' },
+    { role: 'assistant', content: 'Paris' },
+    { role: 'user', content: 'Capital of Peru?' }
+  ];
+
+  const sseBody = (...chunks: string[]): ReadableStream<Uint8Array> => {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      }
+    });
+  };
+
+  const collect = async (stream: AsyncIterable<string>): Promise<string[]> => {
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  const lastBody = (): any => JSON.parse(fetchMock.mock.calls[fetchMock.mock.calls.length - 1][1].body);
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('OpenAILM', () => {
+    beforeEach(() => {
+      fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'Lima' } }] })
+      });
+      global.fetch = fetchMock as any;
+    });
+
+    it('should send chat messages as-is', async () => {
+      const lm = new OpenAILM({ apiKey: 'key' });
+      await lm.init();
+
+      await expect(lm.chat(messages)).resolves.toBe('Lima');
+      expect(lastBody().messages).toEqual(messages);
+    });
+
+    it('should wrap prompts in a single user message', async () => {
+      const lm = new OpenAILM({ apiKey: 'key' });
+      await lm.init();
+
+      await lm.generate('hello');
+      expect(lastBody().messages).toEqual([{ role: 'user', content: 'hello' }]);
+    });
+
+    it('should report usage, finish reason and model', async () => {
+      const raw = {
+        model: 'gpt-4o',
+        choices: [{ message: { content: 'Li' }, finish_reason: 'length' }],
+        usage: { prompt_tokens: 12, completion_tokens: 1, total_tokens: 13 }
+      };
+      fetchMock.mockResolvedValue({ ok: true, json: async () => raw });
+      const lm = new OpenAILM({ apiKey: 'key' });
+      await lm.init();
+
+      const result = await lm.chatDetailed(messages, { maxTokens: 1 });
+      expect(result).toMatchObject({
+        text: 'Li',
+        usage: { promptTokens: 12, completionTokens: 1, totalTokens: 13 },
+        finishReason: 'length',
+        model: 'gpt-4o',
+        raw
+      });
+      expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe('OpenAILM streaming', () => {
+    it('should yield content deltas from server-sent events', async () => {
+      fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        body: sseBody(
+          'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+          'data: {"choices":[{"delta":{"content":"Li"}}]}\n\ndata: {"choices":[{"del',
+          'ta":{"content":"ma"}}]}\n\n',
+          'data: [DONE]\n\n'
+        )
+      });
+      global.fetch = fetchMock as any;
+      const lm = new OpenAILM({ apiKey: 'key' });
+      await lm.init();
+
+      await expect(collect(lm.streamChat(messages))).resolves.toEqual(['Li', 'ma']);
+      expect(lastBody().stream).toBe(true);
+    });
+  });
+
+  describe('AnthropicLM', () => {
+    beforeEach(() => {
+      fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ content: [{ type: 'text', text: 'Lima' }] })
+      });
+      global.fetch = fetchMock as any;
+    });
+
+    it('should send system messages as the system parameter', async () => {
+      const lm = new AnthropicLM({ apiKey: 'key' });
+      await lm.init();
+
+      await expect(lm.chat(messages)).resolves.toBe('Lima');
+      expect(lastBody().system).toBe('Answer in one word.');
+      expect(lastBody().messages).toEqual(messages.slice(1));
+    });
+
+    it('should omit the system parameter when there is none', async () => {
+      const lm = new AnthropicLM({ apiKey: 'key' });
+      await lm.init();
+
+      await lm.generate('hello');
+      expect(lastBody().system).toBeUndefined();
+      expect(lastBody().messages).toEqual([{ role: 'user', content: 'hello' }]);
+    });
+
+    it('should map stop reasons and sum token usage', async () => {
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          model: 'claude-3-haiku',
+          content: [{ type: 'text', text: 'Lima' }],
+          stop_reason: 'max_tokens',
+          usage: { input_tokens: 20, output_tokens: 5 }
+        })
+      });
+      const lm = new AnthropicLM({ apiKey: 'key' });
+      await lm.init();
+
+      const result = await lm.generateDetailed('hello');
+      expect(result.finishReason).toBe('length');
+      expect(result.usage).toEqual({ promptTokens: 20, completionTokens: 5, totalTokens: 25 });
+      expect(result.model).toBe('claude-3-haiku');
+    });
+  });
+
+  describe('AnthropicLM streaming', () => {
+    it('should yield text deltas from content block events', async () => {
+      fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        body: sseBody(
+          'event: message_start\r\ndata: {"type":"message_start"}\r\n\r\n',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Li"}}\n\n',
+          ': ping\n\n',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"ma"}}\n\n',
+          'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+        )
+      });
+      global.fetch = fetchMock as any;
+      const lm = new AnthropicLM({ apiKey: 'key' });
+      await lm.init();
+
+      await expect(collect(lm.stream('Capital of Peru?'))).resolves.toEqual(['Li', 'ma']);
+      expect(lastBody().stream).toBe(true);
+    });
+  });
+});
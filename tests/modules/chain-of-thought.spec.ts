@@ -0,0 +1,131 @@
+import { ChainOfThought } from '../../src/modules/chain-of-thought';
+import { configureLM } from '../../src/core/settings';
+import { configureAdapter } from '../../src/adapters/settings';
+import { ChatAdapter } from '../../src/adapters/chat';
+import { JSONAdapter } from '../../src/adapters/json';
+import { LMDriver, LMError } from '../../src/lm/base';
+
+describe('ChainOfThought', () => {
+  const prompts: string[] = [];
+  let response = '';
+
+  const lm: LMDriver = {
+    generate: async (prompt: string) => {
+      prompts.push(prompt);
+      return response;
+    }
+  };
+
+  beforeEach(() => {
+    prompts.length = 0;
+    configureLM(lm);
+    configureAdapter(new ChatAdapter());
+  });
+
+  const createModule = (): ChainOfThought<{ question: string }, { answer: string }> =>
+    new ChainOfThought({
+      name: 'QA',
+      signature: {
+        inputs: [{ name: 'question', type: 'string', required: true }],
+        outputs: [{ name: 'answer', type: 'string', required: true }]
+      }
+    });
+
+  it('should add a reasoning field before the outputs', () => {
+    const module = createModule();
+    expect(module.signature.outputs.map(f => f.name)).toEqual(['reasoning', 'answer']);
+  });
+
+  it('should format the prompt and parse the response with the global adapter', async () => {
+    response = '[[ ## reasoning ## ]]\n2 plus 2 is 4.\n\n[[ ## answer ## ]]\n4\n\n[[ ## completed ## ]]';
+
+    const result = await createModule().run({ question: 'What is 2+2?' });
+
+    expect(prompts[0]).toContain('[[ ## question ## ]]\nWhat is 2+2?');
+    expect(prompts[0]).toContain('starting with the field `[[ ## reasoning ## ]]`');
+    expect(result).toEqual({ reasoning: '2 plus 2 is 4.', answer: '4' });
+  });
+
+  it('should include its demos in the prompt', async () => {
+    response = '[[ ## reasoning ## ]]\nKnown.\n\n[[ ## answer ## ]]\nLima\n\n[[ ## completed ## ]]';
+    const module = createModule();
+    module.demos = [{ input: { question: 'Capital of France?' }, output: { answer: 'Paris' } }];
+
+    await module.run({ question: 'Capital of Peru?' });
+
+    expect(prompts[0]).toContain('[[ ## question ## ]]\nCapital of France?');
+    expect(prompts[0]).toContain('[[ ## answer ## ]]\nParis');
+  });
+
+  it('should prefer a per-module adapter', async () => {
+    response = '{"reasoning": "Simple sum.", "answer": "4"}';
+    const module = new ChainOfThought<{ question: string }, { answer: string }>({
+      name: 'QA',
+      signature: {
+        inputs: [{ name: 'question', type: 'string', required: true }],
+        outputs: [{ name: 'answer', type: 'string', required: true }]
+      },
+      adapter: new JSONAdapter()
+    });
+
+    const result = await module.run({ question: 'What is 2+2?' });
+
+    expect(prompts[0]).toContain('Respond with a single JSON object');
+    expect(result.reasoning).toBe('Simple sum.');
+  });
+
+  it('should fail when required outputs are missing', async () => {
+    response = '[[ ## reasoning ## ]]\nHmm.\n\n[[ ## completed ## ]]';
+    await expect(createModule().run({ question: 'What is 2+2?' }))
+      .rejects.toThrow('Missing required output field: answer');
+  });
+
+  it('should report truncation when the LM stopped at the token limit', async () => {
+    configureLM({
+      generate: async () => '',
+      chatDetailed: async () => ({
+        text: '[[ ## reasoning ## ]]\nFirst, add the',
+        finishReason: 'length'
+      })
+    });
+
+    const error = await createModule().run({ question: 'What is 2+2?' }).catch(e => e);
+    expect(error).toBeInstanceOf(LMError);
+    expect(error.code).toBe('TRUNCATED');
+    expect(error.message).toContain('truncated at 1000 tokens');
+  });
+
+  it('should stream reasoning before the answer', async () => {
+    configureLM({
+      generate: async () => '',
+      streamChat: async function* () {
+        yield '[[ ## reasoning ## ]]\n2 plus';
+        yield ' 2 is 4.\n\n[[ ## answer ## ]]\n4';
+        yield '\n\n[[ ## completed ## ]]';
+      }
+    });
+
+    const updates = [];
+    for await (const update of createModule().stream({ question: 'What is 2+2?' })) {
+      updates.push(update);
+    }
+
+    expect(updates.map(u => u.partial)).toEqual([
+      { reasoning: '2 plus' },
+      { reasoning: '2 plus 2 is 4.', answer: '4' },
+      { reasoning: '2 plus 2 is 4.', answer: '4' },
+      { reasoning: '2 plus 2 is 4.', answer: '4' }
+    ]);
+    expect(updates[updates.length - 1].done).toBe(true);
+  });
+
+  it('should use its own LM and generation options over the defaults', async () => {
+    const chat = jest.fn().mockResolvedValue('[[ ## reasoning ## ]]\nEasy.\n\n[[ ## answer ## ]]\n4');
+    const module = createModule().set({ lm: { generate: jest.fn(), chat }, temperature: 0 });
+
+    await module.run({ question: 'What is 2+2?' });
+
+    expect(prompts).toHaveLength(0);
+    expect(chat.mock.calls[0][1]).toEqual({ temperature: 0, maxTokens: 1000 });
+  });
+});
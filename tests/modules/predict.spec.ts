@@ -53,4 +53,125 @@ describe('PredictModule', () => {
     const result = await module.run({ name: 'test' });
     expect(result.greeting).toBe('Hello, test!');
   });
+
+  it('should send adapter-formatted messages to chat-capable drivers', async () => {
+    const chat = jest.fn().mockResolvedValue('[[ ## greeting ## ]]\nHi, Ada!');
+    configureLM({ generate: jest.fn(), chat });
+
+    const module = new PredictModule<{ name: string }, { greeting: string }>({
+      name: 'Greeter',
+      signature: {
+        inputs: [{ name: 'name', type: 'string' }],
+        outputs: [{ name: 'greeting', type: 'string' }]
+      }
+    });
+
+    const result = await module.run({ name: 'Ada' });
+    const messages = chat.mock.calls[0][0];
+
+    expect(result.greeting).toBe('Hi, Ada!');
+    expect(messages.map((m: any) => m.role)).toEqual(['system', 'user']);
+    expect(messages[0].content).toContain('`greeting` (string)');
+    expect(messages[1].content).toContain('[[ ## name ## ]]\nAda');
+  });
+
+  it('should render its demos as user/assistant turns', async () => {
+    const chat = jest.fn().mockResolvedValue('[[ ## greeting ## ]]\nHi, Ada!');
+    configureLM({ generate: jest.fn(), chat });
+
+    const module = new PredictModule<{ name: string }, { greeting: string }>({
+      name: 'Greeter',
+      signature: {
+        inputs: [{ name: 'name', type: 'string' }],
+        outputs: [{ name: 'greeting', type: 'string' }]
+      }
+    });
+    module.demos = [{ input: { name: 'Bob' }, output: { greeting: 'Hello, Bob!' } }];
+
+    await module.run({ name: 'Ada' });
+    const messages = chat.mock.calls[0][0];
+
+    expect(messages.map((m: any) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(messages[1].content).toContain('[[ ## name ## ]]\nBob');
+    expect(messages[2].content).toContain('[[ ## greeting ## ]]\nHello, Bob!');
+  });
+
+  it('should render demos through a custom prompt template', async () => {
+    const chat = jest.fn().mockResolvedValue('[[ ## greeting ## ]]\nHi, Ada!');
+    configureLM({ generate: jest.fn(), chat });
+
+    const module = new PredictModule<{ name: string }, { greeting: string }>({
+      name: 'Greeter',
+      signature: {
+        inputs: [{ name: 'name', type: 'string' }],
+        outputs: [{ name: 'greeting', type: 'string' }]
+      },
+      promptTemplate: ({ name }) => `Greet ${name}`
+    });
+    module.demos = [{ input: { name: 'Bob' }, output: { greeting: 'Hello, Bob!' } }];
+
+    await module.run({ name: 'Ada' });
+    const messages = chat.mock.calls[0][0];
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'Greet Bob' },
+      { role: 'assistant', content: expect.stringContaining('[[ ## greeting ## ]]\nHello, Bob!') },
+      { role: 'user', content: 'Greet Ada' }
+    ]);
+  });
+
+  it('should stream partial outputs and return the validated output', async () => {
+    const lm = new DummyLM(undefined, { chunkSize: 8 });
+    await lm.init();
+    configureLM(lm);
+
+    const module = new PredictModule<{ name: string }, { greeting: string }>({
+      name: 'Greeter',
+      signature: {
+        inputs: [{ name: 'name', type: 'string' }],
+        outputs: [{ name: 'greeting', type: 'string' }]
+      },
+      promptTemplate: ({ name }) => name
+    });
+    lm.setResponse('Ada', '[[ ## greeting ## ]]\nHi, Ada!');
+
+    const stream = module.stream({ name: 'Ada' });
+    const partials: string[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      partials.push(next.value.partial.greeting ?? '');
+      next = await stream.next();
+    }
+
+    expect(partials).toEqual(['', '', 'Hi,', 'Hi, Ada!', 'Hi, Ada!']);
+    expect(next.value).toEqual({ greeting: 'Hi, Ada!' });
+  });
+
+  it('should route modules in one pipeline to different LMs', async () => {
+    const cheap = { generate: jest.fn().mockResolvedValue('[[ ## route ## ]]\nmath') };
+    const strong = { generate: jest.fn().mockResolvedValue('[[ ## answer ## ]]\n4') };
+    configureLM(strong);
+
+    const router = new PredictModule<{ question: string }, { route: string }>({
+      name: 'Router',
+      signature: {
+        inputs: [{ name: 'question', type: 'string' }],
+        outputs: [{ name: 'route', type: 'string' }]
+      },
+      lm: cheap,
+      generationOptions: { temperature: 0 }
+    });
+    const answerer = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'Answerer',
+      signature: {
+        inputs: [{ name: 'question', type: 'string' }],
+        outputs: [{ name: 'answer', type: 'string' }]
+      }
+    });
+
+    await expect(router.run({ question: '2+2?' })).resolves.toEqual({ route: 'math' });
+    await expect(answerer.run({ question: '2+2?' })).resolves.toEqual({ answer: '4' });
+    expect(cheap.generate).toHaveBeenCalledWith(expect.any(String), { temperature: 0 });
+    expect(strong.generate).toHaveBeenCalledTimes(1);
+  });
 });
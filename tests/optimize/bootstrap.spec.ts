@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BootstrapFewShot } from '../../src/optimize/bootstrap';
+import { Program } from '../../src/core/program';
+import { parseSignature } from '../../src/core/signature';
+import { Example, Prediction } from '../../src/core/example';
+import { PredictModule } from '../../src/modules/predict';
+import { LMDriver } from '../../src/lm/base';
+
+class Pipeline extends Program<{ question: string }, { answer: string }> {
+  rewrite = new PredictModule({ name: 'Rewrite', signature: parseSignature('question -> query') });
+  answer = new PredictModule({ name: 'Answer', signature: parseSignature('question -> answer') });
+
+  constructor() {
+    super({ name: 'Pipeline' });
+  }
+
+  async forward({ question }: { question: string }): Promise<{ answer: string }> {
+    return { answer: question };
+  }
+}
+
+describe('BootstrapFewShot', () => {
+  const trainset = [
+    { input: { question: 'Capital of France?' }, output: { answer: 'Paris' } },
+    { input: { question: 'Capital of Peru?' }, output: { answer: 'Lima' } }
+  ];
+
+  it('should give each predictor of a program the demos covering its fields', async () => {
+    const program = new Pipeline();
+    const optimizer = new BootstrapFewShot<{ question: string }, { answer: string }>(() => 1);
+
+    const compiled = await optimizer.compile(program, trainset) as Pipeline;
+
+    expect(compiled).toBeInstanceOf(Pipeline);
+    expect(compiled).not.toBe(program);
+    expect(compiled.rewrite.demos).toEqual([]);
+    expect(compiled.answer.demos).toEqual([
+      { input: { question: 'Capital of France?' }, output: { answer: 'Paris' } },
+      { input: { question: 'Capital of Peru?' }, output: { answer: 'Lima' } }
+    ]);
+    expect(program.answer.demos).toEqual([]);
+  });
+
+  it('should return a copy of a single module holding the demos', async () => {
+    const module = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'Answer',
+      signature: parseSignature('question -> answer')
+    });
+    const optimizer = new BootstrapFewShot<{ question: string }, { answer: string }>(() => 1);
+
+    const compiled = await optimizer.compile(module, trainset);
+
+    expect(compiled).toBeInstanceOf(PredictModule);
+    expect(compiled.demos).toEqual(trainset);
+    expect(module.demos).toEqual([]);
+  });
+
+  it('should show the demos of a template-based module to the LM', async () => {
+    const chat = jest.fn().mockResolvedValue('[[ ## answer ## ]]\nLima');
+    const module = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'Answer',
+      signature: parseSignature('question -> answer'),
+      promptTemplate: ({ question }) => `Q: ${question}`,
+      lm: { generate: jest.fn(), chat }
+    });
+    const optimizer = new BootstrapFewShot<{ question: string }, { answer: string }>(() => 1);
+
+    const compiled = await optimizer.compile(module, trainset);
+    await compiled.run({ question: 'Capital of Chile?' });
+    const messages = chat.mock.calls[0][0];
+
+    expect(messages.map((m: { content: string }) => m.content.split('\n')[0])).toEqual([
+      'Q: Capital of France?',
+      '[[ ## answer ## ]]',
+      'Q: Capital of Peru?',
+      '[[ ## answer ## ]]',
+      'Q: Capital of Chile?'
+    ]);
+    expect(messages[1].content).toContain('Paris');
+  });
+
+  it('should accept Examples with marked inputs', async () => {
+    const module = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'Answer',
+      signature: parseSignature('question -> answer')
+    });
+    const optimizer = new BootstrapFewShot<{ question: string }, { answer: string }>(() => 1);
+    const examples = [new Example({ question: 'Capital of France?', answer: 'Paris' }).withInputs('question')];
+
+    const compiled = await optimizer.compile(module, examples);
+
+    expect(compiled.demos).toEqual([trainset[0]]);
+  });
+
+  it('should accept Predictions as labels', async () => {
+    const module = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'Answer',
+      signature: parseSignature('question -> answer')
+    });
+    const optimizer = new BootstrapFewShot<{ question: string }, { answer: string }>(() => 1);
+
+    const compiled = await optimizer.compile(module, [
+      { input: { question: 'Capital of France?' }, output: new Prediction({ answer: 'Paris' }) }
+    ]);
+
+    expect(compiled.demos).toEqual([trainset[0]]);
+  });
+
+  it('should collect demos for every traced predictor from teacher runs that pass the metric', async () => {
+    class TwoHop extends Program<{ question: string }, { answer: string }> {
+      rewrite = new PredictModule<{ question: string }, { query: string }>({
+        name: 'Rewrite',
+        signature: parseSignature('question -> query')
+      });
+      answer = new PredictModule<{ query: string }, { answer: string }>({
+        name: 'Answer',
+        signature: parseSignature('query -> answer')
+      });
+
+      constructor() {
+        super({ name: 'TwoHop' });
+      }
+
+      async forward({ question }: { question: string }): Promise<{ answer: string }> {
+        const { query } = await this.rewrite.run({ question });
+        return this.answer.run({ query });
+      }
+    }
+
+    const lm = (answer: string): LMDriver => ({
+      generate: async () => '',
+      chat: async messages => (messages[0].content.includes('`query`, produce')
+        ? `[[ ## answer ## ]]\n${answer}`
+        : '[[ ## query ## ]]\ncapital of France')
+    });
+    const student = new TwoHop();
+    student.rewrite.set({ lm: lm('wrong') });
+    student.answer.set({ lm: lm('wrong') });
+    const teacher = student.clone();
+    teacher.answer.set({ lm: lm('Paris') });
+
+    const optimizer = new BootstrapFewShot<{ question: string }, { answer: string }>(
+      (_input, output, expected) => output.answer === expected?.answer,
+      { maxLabeledDemos: 0, teacher }
+    );
+    const compiled = await optimizer.compile(student, trainset) as TwoHop;
+
+    expect(compiled.rewrite.demos).toEqual([
+      { input: { question: 'Capital of France?' }, output: { query: 'capital of France' } }
+    ]);
+    expect(compiled.answer.demos).toEqual([
+      { input: { query: 'capital of France' }, output: { answer: 'Paris' } }
+    ]);
+    expect(compiled.answer.lm).toBe(student.answer.lm);
+  });
+
+  it('should save and load compiled state as JSON', async () => {
+    const file = path.join(os.tmpdir(), `bootstrap-${process.pid}.json`);
+    const optimizer = new BootstrapFewShot<{ question: string }, { answer: string }>(() => 1);
+    await optimizer.compile(new Pipeline(), trainset);
+
+    try {
+      optimizer.save(file);
+      const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+      expect(saved.version).toBe(1);
+      expect(Object.keys(saved.predictors).sort()).toEqual(['answer', 'rewrite']);
+
+      const fresh = new Pipeline();
+      new BootstrapFewShot<{ question: string }, { answer: string }>(() => 1).load(file, fresh);
+      expect(fresh.answer.demos).toHaveLength(2);
+      expect(fresh.rewrite.demos).toEqual([]);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it('should require a program to load into', () => {
+    const optimizer = new BootstrapFewShot<{ question: string }, { answer: string }>(() => 1);
+    expect(() => optimizer.load('missing.json')).toThrow('No program to load into');
+  });
+});
@@ -0,0 +1,140 @@
+import { COPRO } from '../../src/optimize/copro';
+import { PredictModule } from '../../src/modules/predict';
+import { parseSignature } from '../../src/core/signature';
+import { LMDriver } from '../../src/lm/base';
+import { exactMatch } from '../../src/evaluate/metrics';
+import { ChatLM, answerCapital, capitals } from '../helpers/chat-lm';
+
+/**
+ * Prompt model that alternates between a vague and a capitals instruction, and answers
+ * questions correctly only when told the task is about capitals
+ */
+const createLM = (): ChatLM => {
+  let proposals = 0;
+  return new ChatLM(messages => {
+    if (!messages[0].content.includes('instruction optimizer')) {
+      return answerCapital(messages);
+    }
+    const instruction = proposals++ % 2 === 0
+      ? 'Answer the question.'
+      : 'Name the capital city of the country.';
+    return `[[ ## proposed_instruction ## ]]\n${instruction}\n\n` +
+      '[[ ## proposed_prefix_for_output_field ## ]]\nCapital:';
+  });
+};
+
+/**
+ * The scored attempts the prompt model was shown
+ */
+const attempts = (lm: ChatLM): string[] =>
+  lm.calls
+    .filter(messages => messages[0].content.includes('previous instructions'))
+    .map(messages => messages[messages.length - 1].content);
+
+describe('COPRO', () => {
+  const trainset = Object.entries(capitals).map(([question, answer]) => ({
+    input: { question },
+    output: { answer }
+  }));
+
+  const createModule = (lm: LMDriver): PredictModule<{ question: string }, { answer: string }> => {
+    const module = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'Capitals',
+      signature: parseSignature('question -> answer')
+    });
+    return module.set({ lm });
+  };
+
+  it('should keep the best proposed instruction and prefix', async () => {
+    const lm = createLM();
+    const module = createModule(lm);
+    const optimizer = new COPRO<{ question: string }, { answer: string }>(exactMatch(), {
+      breadth: 3,
+      depth: 2,
+      promptModel: lm
+    });
+
+    const optimized = await optimizer.compile(module, trainset);
+
+    expect(optimized.signature.instructions).toBe('Name the capital city of the country.');
+    expect(optimized.signature.outputs[0].description).toBe('Capital:');
+    expect(await optimized.run({ question: 'Chile' })).toEqual({ answer: 'Santiago' });
+    expect(module.signature.instructions).toBeUndefined();
+  });
+
+  it('should report the score trajectory per round', async () => {
+    const lm = createLM();
+    const optimizer = new COPRO<{ question: string }, { answer: string }>(exactMatch(), {
+      breadth: 3,
+      depth: 2,
+      promptModel: lm
+    });
+
+    await optimizer.compile(createModule(lm), trainset);
+
+    const trajectory = optimizer.getTrajectory();
+    expect(trajectory[0]).toEqual({ round: 1, predictor: 'self', candidates: 2, best: 1, average: 0.5 });
+    expect(trajectory.every(stats => stats.round <= 2 && stats.predictor === 'self')).toBe(true);
+
+    const candidates = optimizer.getCandidates();
+    expect(candidates[0]).toMatchObject({ round: 0, score: 0 });
+    expect(candidates.map(c => c.instruction)).toContain('Name the capital city of the country.');
+  });
+
+  it('should feed the scored attempts back to the prompt model', async () => {
+    const lm = createLM();
+    const optimizer = new COPRO<{ question: string }, { answer: string }>(exactMatch(), {
+      breadth: 2,
+      depth: 2,
+      promptModel: lm
+    });
+
+    await optimizer.compile(createModule(lm), trainset);
+
+    expect(attempts(lm).length).toBeGreaterThan(0);
+    expect(attempts(lm)[0]).toContain('Instruction: Answer the question.');
+    expect(attempts(lm)[0]).toContain('Score: 0.000');
+  });
+
+  it('should keep the original signature when no candidate improves it', async () => {
+    const lm = createLM();
+    const module = createModule(lm);
+    module.signature.instructions = 'Name the capital city of the country.';
+    const optimizer = new COPRO<{ question: string }, { answer: string }>(exactMatch(), {
+      breadth: 2,
+      depth: 1,
+      promptModel: lm
+    });
+
+    const optimized = await optimizer.compile(module, trainset);
+
+    expect(optimized.signature.instructions).toBe('Name the capital city of the country.');
+    expect(optimized.signature.outputs[0].description).toBeUndefined();
+    expect(optimizer.getTrajectory()).toEqual([
+      { round: 1, predictor: 'self', candidates: 1, best: 0, average: 0 }
+    ]);
+  });
+
+  it('should skip predictors whose prompt does not include instructions', async () => {
+    const lm = createLM();
+    const module = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'Capitals',
+      signature: parseSignature('question -> answer'),
+      promptTemplate: ({ question }) => `[[ ## question ## ]]\n${question}`
+    }).set({ lm });
+    const optimizer = new COPRO<{ question: string }, { answer: string }>(exactMatch(), {
+      breadth: 2,
+      depth: 1,
+      promptModel: lm
+    });
+
+    await expect(optimizer.compile(module, trainset)).rejects.toThrow(
+      'COPRO found no predictors whose prompts include instructions'
+    );
+    expect(lm.calls).toHaveLength(0);
+  });
+
+  it('should reject a breadth below 2', () => {
+    expect(() => new COPRO(exactMatch(), { breadth: 1 })).toThrow('COPRO breadth must be at least 2');
+  });
+});
@@ -0,0 +1,103 @@
+import { Ensemble, EnsembleProgram, majority } from '../../src/optimize/ensemble';
+import { Module } from '../../src/core/module';
+import { parseSignature } from '../../src/core/signature';
+
+/**
+ * Always gives the same answer, or fails when the answer is an error
+ */
+class Fixed extends Module<{ question: string }, { answer: string }> {
+  calls = 0;
+
+  constructor(private readonly answer: string | Error) {
+    super({ name: 'Fixed', signature: parseSignature('question -> answer'), strategy: 'Predict' });
+  }
+
+  async run(): Promise<{ answer: string }> {
+    this.calls++;
+    if (this.answer instanceof Error) {
+      throw this.answer;
+    }
+    return { answer: this.answer };
+  }
+}
+
+describe('Ensemble', () => {
+  it('should return the majority answer', async () => {
+    const ensemble = new Ensemble<{ question: string }, { answer: string }>().compile([
+      new Fixed('Lima'),
+      new Fixed('Paris'),
+      new Fixed('lima.')
+    ]);
+
+    expect(ensemble).toBeInstanceOf(EnsembleProgram);
+    expect(await ensemble.run({ question: 'Capital of Peru?' })).toEqual({ answer: 'Lima' });
+  });
+
+  it('should apply a custom reduce function', async () => {
+    const ensemble = new Ensemble<{ question: string }, { answer: string }>({
+      reduce: outputs => ({ answer: outputs.map(o => o.answer).join(', ') })
+    }).compile([new Fixed('a'), new Fixed('b')]);
+
+    expect(await ensemble.run({ question: 'q' })).toEqual({ answer: 'a, b' });
+  });
+
+  it('should sample a subset of programs per call', async () => {
+    const programs = [new Fixed('a'), new Fixed('b'), new Fixed('c'), new Fixed('d')];
+    const ensemble = new Ensemble<{ question: string }, { answer: string }>({ size: 2, seed: 1 }).compile(programs);
+
+    for (let i = 0; i < 10; i++) {
+      await ensemble.run({ question: 'q' });
+    }
+
+    expect(programs.reduce((sum, p) => sum + p.calls, 0)).toBe(20);
+    expect(programs.filter(p => p.calls > 0).length).toBeGreaterThan(2);
+  });
+
+  it('should leave failed programs out of the vote', async () => {
+    const ensemble = new Ensemble<{ question: string }, { answer: string }>().compile([
+      new Fixed(new Error('boom')),
+      new Fixed('ok')
+    ]);
+
+    expect(await ensemble.run({ question: 'q' })).toEqual({ answer: 'ok' });
+
+    const failing = new Ensemble<{ question: string }, { answer: string }>().compile([new Fixed(new Error('boom'))]);
+    await expect(failing.run({ question: 'q' })).rejects.toThrow('boom');
+  });
+
+  it('should expose the predictors of every program', () => {
+    const ensemble = new Ensemble<{ question: string }, { answer: string }>().compile([new Fixed('a'), new Fixed('b')]);
+
+    expect(ensemble.namedPredictors().map(([name]) => name)).toEqual(['programs[0]', 'programs[1]']);
+  });
+
+  it('should reject an empty ensemble', () => {
+    expect(() => new Ensemble().compile([])).toThrow('Ensemble needs at least one program');
+    expect(() => new Ensemble({ size: 0 })).toThrow('Ensemble size must be at least 1');
+  });
+});
+
+describe('majority', () => {
+  it('should vote on the chosen field and break ties by order', () => {
+    const outputs = [
+      { confidence: 1, answer: 'x' },
+      { confidence: 2, answer: 'y' },
+      { confidence: 1, answer: 'y' }
+    ];
+
+    expect(majority<typeof outputs[number]>('confidence')(outputs)).toBe(outputs[0]);
+    expect(majority<typeof outputs[number]>()(outputs)).toBe(outputs[1]);
+    expect(majority()([{ answer: 'a' }, { answer: 'b' }])).toEqual({ answer: 'a' });
+    expect(() => majority()([])).toThrow('Cannot take a majority vote over no outputs');
+  });
+
+  it('should vote on the answer of ChainOfThought outputs by default', () => {
+    const outputs = [
+      { reasoning: 'Paris is the capital.', answer: 'Paris' },
+      { reasoning: 'Lyon is a large city.', answer: 'Lyon' },
+      { reasoning: 'I think it is Lyon.', answer: 'Lyon' }
+    ];
+
+    expect(majority<typeof outputs[number]>()(outputs)).toBe(outputs[1]);
+  });
+});
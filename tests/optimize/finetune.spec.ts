@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BootstrapFinetune, LocalFinetuner, toJSONL } from '../../src/optimize/finetune';
+import { Program } from '../../src/core/program';
+import { parseSignature } from '../../src/core/signature';
+import { PredictModule } from '../../src/modules/predict';
+import { LMDriver } from '../../src/lm/base';
+import { withLM } from '../../src/core/settings';
+import { exactMatch } from '../../src/evaluate/metrics';
+import { ChatLM } from '../helpers/chat-lm';
+
+/**
+ * LM that answers every field with the uppercased value of the first input
+ */
+const createLM = (): ChatLM =>
+  new ChatLM(messages => {
+    const last = messages[messages.length - 1].content;
+    const value = last.match(/\[\[ ## \w+ ## \]\]\n(.*)/)![1].toUpperCase();
+    const field = last.match(/`\[\[ ## (\w+) ## \]\]`/)?.[1] ?? 'answer';
+    return `[[ ## ${field} ## ]]\n${value}`;
+  });
+
+class TwoStep extends Program<{ question: string }, { answer: string }> {
+  rewrite = new PredictModule<{ question: string }, { query: string }>({
+    name: 'Rewrite',
+    signature: parseSignature('question -> query')
+  });
+  answer = new PredictModule<{ query: string }, { answer: string }>({
+    name: 'Answer',
+    signature: parseSignature('query -> answer')
+  });
+
+  constructor() {
+    super({ name: 'TwoStep' });
+  }
+
+  async forward({ question }: { question: string }): Promise<{ answer: string }> {
+    const { query } = await this.rewrite.run({ question });
+    return this.answer.run({ query });
+  }
+}
+
+describe('BootstrapFinetune', () => {
+  const trainset = [
+    { input: { question: 'paris' }, output: { answer: 'PARIS' } },
+    { input: { question: 'lima' }, output: { answer: 'LIMA' } },
+    { input: { question: 'rome' }, output: { answer: 'Milan' } }
+  ];
+
+  const createModule = (): PredictModule<{ question: string }, { answer: string }> =>
+    new PredictModule<{ question: string }, { answer: string }>({
+      name: 'QA',
+      signature: parseSignature('question -> answer')
+    }).set({ lm: createLM() });
+
+  it('should train on successful runs in OpenAI chat format', async () => {
+    const finetuned = createLM();
+    const finetuner = new LocalFinetuner({ lm: finetuned });
+    const module = createModule();
+    const optimizer = new BootstrapFinetune<{ question: string }, { answer: string }>(exactMatch(), { finetuner });
+
+    const compiled = await optimizer.compile(module, trainset);
+
+    expect(finetuner.jobs).toHaveLength(1);
+    const [job] = finetuner.jobs;
+    expect(job).toMatchObject({ name: 'all', format: 'openai', lm: module.lm });
+    expect(job.records).toHaveLength(2);
+    expect(job.records[0].messages.map(m => m.role)).toEqual(['system', 'user', 'assistant']);
+    expect(job.records[0].messages[1].content).toContain('paris');
+    expect(job.records[0].messages[2].content).toBe('[[ ## answer ## ]]\nPARIS\n\n[[ ## completed ## ]]');
+    expect(job.jsonl.trim().split('\n').map(line => JSON.parse(line))).toEqual(job.records);
+    expect(compiled.lm).toBe(finetuned);
+    expect(module.lm).not.toBe(finetuned);
+    expect(optimizer.getJobs()).toEqual([job]);
+  });
+
+  it('should move the system prompt out of the messages in Anthropic format', async () => {
+    const finetuner = new LocalFinetuner();
+    const optimizer = new BootstrapFinetune<{ question: string }, { answer: string }>(exactMatch(), {
+      finetuner,
+      format: 'anthropic'
+    });
+
+    await optimizer.compile(createModule(), trainset);
+    const [record] = finetuner.jobs[0].records;
+
+    expect(record.system).toContain('`question`');
+    expect(record.messages.map(m => m.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('should fine-tune one model per predictor from traced calls', async () => {
+    const program = new TwoStep();
+    program.rewrite.set({ lm: createLM() });
+    program.answer.set({ lm: createLM() });
+    const models = new Map<string, LMDriver>();
+    const optimizer = new BootstrapFinetune<{ question: string }, { answer: string }>(exactMatch(), {
+      multitask: false,
+      finetuner: {
+        async finetune(job) {
+          const lm = createLM();
+          models.set(job.name, lm);
+          return lm;
+        }
+      }
+    });
+
+    const compiled = await optimizer.compile(program, trainset) as TwoStep;
+    const jobs = optimizer.getJobs();
+
+    expect(jobs.map(job => job.name)).toEqual(['rewrite', 'answer']);
+    expect(jobs[0].records[0].messages[2].content).toBe('[[ ## query ## ]]\nPARIS\n\n[[ ## completed ## ]]');
+    expect(jobs[1].records[0].messages[1].content).toContain('[[ ## query ## ]]\nPARIS');
+    expect(compiled.rewrite.lm).toBe(models.get('rewrite'));
+    expect(compiled.answer.lm).toBe(models.get('answer'));
+  });
+
+  it('should leave predictors on their own LMs when the finetuner returns none', async () => {
+    const program = new TwoStep();
+    const rewriteLM = createLM();
+    program.rewrite.set({ lm: rewriteLM });
+    const finetuner = new LocalFinetuner();
+    const optimizer = new BootstrapFinetune<{ question: string }, { answer: string }>(exactMatch(), { finetuner });
+
+    const compiled = await withLM(createLM(), () => optimizer.compile(program, trainset)) as TwoStep;
+
+    expect(finetuner.jobs).toHaveLength(1);
+    expect(compiled.rewrite.lm).toBe(rewriteLM);
+    expect(compiled.answer.lm).toBeUndefined();
+
+    const echo = new BootstrapFinetune<{ question: string }, { answer: string }>(exactMatch(), {
+      finetuner: { finetune: async job => job.lm }
+    });
+    const answerLM = createLM();
+    program.answer.set({ lm: answerLM });
+    const recompiled = await echo.compile(program, trainset) as TwoStep;
+
+    expect(echo.getJobs()[0].lm).toBe(rewriteLM);
+    expect(recompiled.rewrite.lm).toBe(rewriteLM);
+    expect(recompiled.answer.lm).toBe(answerLM);
+  });
+
+  it('should train on the messages a template-based predictor sent', async () => {
+    const finetuner = new LocalFinetuner();
+    const module = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'QA',
+      signature: parseSignature('question -> answer'),
+      promptTemplate: ({ question }) => `[[ ## question ## ]]\n${question}`
+    }).set({ lm: createLM() });
+    const optimizer = new BootstrapFinetune<{ question: string }, { answer: string }>(exactMatch(), { finetuner });
+
+    await optimizer.compile(module, trainset);
+    const [record] = finetuner.jobs[0].records;
+
+    expect(record.messages).toEqual([
+      { role: 'user', content: '[[ ## question ## ]]\nparis' },
+      { role: 'assistant', content: '[[ ## answer ## ]]\nPARIS\n\n[[ ## completed ## ]]' }
+    ]);
+  });
+
+  it('should reject per-predictor data for a predictor the program does not have', async () => {
+    const program = new TwoStep();
+    program.rewrite.set({ lm: createLM() });
+    program.answer.set({ lm: createLM() });
+    const finetuner = new LocalFinetuner();
+    const optimizer = new BootstrapFinetune<{ question: string }, { answer: string }>(exactMatch(), {
+      finetuner,
+      multitask: false,
+      teacher: createModule()
+    });
+
+    await expect(optimizer.compile(program, trainset)).rejects.toThrow(
+      'BootstrapFinetune found no predictor named "self" in the program to fine-tune'
+    );
+    expect(finetuner.jobs).toHaveLength(0);
+  });
+
+  it('should fail without successful runs', async () => {
+    const optimizer = new BootstrapFinetune<{ question: string }, { answer: string }>(() => 0, {
+      finetuner: new LocalFinetuner()
+    });
+
+    await expect(optimizer.compile(createModule(), trainset)).rejects.toThrow(
+      'BootstrapFinetune found no successful runs to train on'
+    );
+  });
+});
+
+describe('LocalFinetuner', () => {
+  it('should write each job as a JSONL file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'finetune-'));
+    const lm = createLM();
+    const records = [{ messages: [{ role: 'user' as const, content: 'hi' }, { role: 'assistant' as const, content: 'hello' }] }];
+
+    try {
+      const result = await new LocalFinetuner({ outputDir: dir, lm }).finetune({
+        name: 'all',
+        format: 'openai',
+        records,
+        jsonl: toJSONL(records)
+      });
+
+      expect(result).toBe(lm);
+      expect(fs.readFileSync(path.join(dir, 'all.jsonl'), 'utf8')).toBe(`${JSON.stringify(records[0])}\n`);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,165 @@
+import { KNNFewShot, KNNFewShotProgram, hashingEmbedder } from '../../src/optimize/knn-fewshot';
+import { PredictModule } from '../../src/modules/predict';
+import { Program } from '../../src/core/program';
+import { parseSignature } from '../../src/core/signature';
+import { AgentDBClient } from '../../src/memory/agentdb/client';
+import { DEFAULT_AGENTDB_CONFIG } from '../../src/memory/agentdb/config';
+import { ChatMessage, LMDriver } from '../../src/lm/base';
+import { exactMatch } from '../../src/evaluate/metrics';
+import { ChatLM } from '../helpers/chat-lm';
+
+/**
+ * LM that records the messages it receives and always answers "ok"
+ */
+const createLM = (): ChatLM => new ChatLM(() => '[[ ## answer ## ]]\nok');
+
+class TopicQA extends Program<{ question: string }, { topic: string; answer: string }> {
+  classify = new PredictModule<{ question: string }, { topic: string }>({
+    name: 'Classify',
+    signature: parseSignature('question -> topic')
+  });
+  answer = new PredictModule<{ question: string; topic: string }, { answer: string }>({
+    name: 'Answer',
+    signature: parseSignature('question, topic -> answer')
+  });
+
+  constructor() {
+    super({ name: 'TopicQA' });
+  }
+
+  async forward({ question }: { question: string }): Promise<{ topic: string; answer: string }> {
+    const { topic } = await this.classify.run({ question });
+    const { answer } = await this.answer.run({ question, topic });
+    return { topic, answer };
+  }
+}
+
+describe('KNNFewShot', () => {
+  const trainset = [
+    { input: { question: 'What is the capital of France?' }, output: { answer: 'Paris' } },
+    { input: { question: 'What is the capital of Peru?' }, output: { answer: 'Lima' } },
+    { input: { question: 'What color is the sky?' }, output: { answer: 'Blue' } },
+    { input: { question: 'What color is grass?' }, output: { answer: 'Green' } }
+  ];
+
+  const createModule = (lm: LMDriver): PredictModule<{ question: string }, { answer: string }> =>
+    new PredictModule<{ question: string }, { answer: string }>({
+      name: 'QA',
+      signature: parseSignature('question -> answer')
+    }).set({ lm });
+
+  const demoQuestions = (messages: ChatMessage[]): string[] =>
+    messages
+      .slice(1, -1)
+      .filter(message => message.role === 'user')
+      .map(message => message.content.match(/\[\[ ## question ## \]\]\n(.*)/)![1]);
+
+  it('should retrieve the nearest training examples as demos', async () => {
+    const lm = createLM();
+    const optimizer = new KNNFewShot<{ question: string }, { answer: string }>(exactMatch(), { k: 2 });
+
+    const compiled = await optimizer.compile(createModule(lm), trainset);
+    await compiled.run({ question: 'What is the capital of Chile?' });
+
+    expect(compiled).toBeInstanceOf(KNNFewShotProgram);
+    expect(demoQuestions(lm.calls[0]).sort()).toEqual([
+      'What is the capital of France?',
+      'What is the capital of Peru?'
+    ]);
+
+    await compiled.run({ question: 'What color is the ocean?' });
+    expect(demoQuestions(lm.calls[1]).sort()).toEqual(['What color is grass?', 'What color is the sky?']);
+  });
+
+  it('should show fixed demos before the retrieved ones', async () => {
+    const lm = createLM();
+    const module = createModule(lm);
+    module.demos = [{ input: { question: 'What is 2 + 2?' }, output: { answer: '4' } }];
+    const optimizer = new KNNFewShot<{ question: string }, { answer: string }>(exactMatch(), {
+      k: 1,
+      fixedDemos: [trainset[3]]
+    });
+
+    const compiled = await optimizer.compile(module, trainset) as KNNFewShotProgram<
+      { question: string },
+      { answer: string }
+    >;
+    await compiled.run({ question: 'What color is grass in spring?' });
+
+    // The retrieved example is already a fixed demo, so it is not repeated
+    expect(demoQuestions(lm.calls[0])).toEqual(['What is 2 + 2?', 'What color is grass?']);
+    expect(compiled.program.demos).toHaveLength(2);
+    expect(module.demos).toHaveLength(1);
+  });
+
+  it('should project the retrieved examples onto each predictor of a program', async () => {
+    const lm = new ChatLM(() => '[[ ## topic ## ]]\ngeography\n\n[[ ## answer ## ]]\nok');
+    const program = new TopicQA();
+    program.classify.set({ lm });
+    program.answer.set({ lm });
+    const optimizer = new KNNFewShot<{ question: string }, { topic: string; answer: string }>(exactMatch(), { k: 1 });
+
+    const compiled = await optimizer.compile(program, [
+      { input: { question: 'What is the capital of France?' }, output: { topic: 'geography', answer: 'Paris' } }
+    ]);
+    await compiled.run({ question: 'What is the capital of Peru?' });
+
+    const [classify, answer] = lm.calls.map(messages => messages.slice(1, -1));
+    expect(classify.map(message => message.content)).toEqual([
+      expect.stringContaining('[[ ## question ## ]]\nWhat is the capital of France?'),
+      expect.stringContaining('[[ ## topic ## ]]\ngeography')
+    ]);
+    expect(classify[1].content).not.toContain('Paris');
+    expect(answer[0].content).toContain('[[ ## topic ## ]]\ngeography');
+    expect(answer[1].content).toContain('[[ ## answer ## ]]\nParis');
+  });
+
+  it('should use the given embedder and client', async () => {
+    const client = new AgentDBClient({
+      vectorDimension: 2,
+      mcpEnabled: false,
+      storage: { ...DEFAULT_AGENTDB_CONFIG.storage, inMemory: true }
+    });
+    await client.init();
+    const embedder = jest.fn((text: string) => (text.includes('capital') ? [1, 0] : [0, 1]));
+    const optimizer = new KNNFewShot<{ question: string }, { answer: string }>(exactMatch(), {
+      k: 1,
+      embedder,
+      client
+    });
+
+    const compiled = await optimizer.compile(createModule(createLM()), trainset) as KNNFewShotProgram<
+      { question: string },
+      { answer: string }
+    >;
+    const demos = await compiled.retrieve({ question: 'Which capital is largest?' });
+
+    expect(client.getStats().totalVectors).toBe(4);
+    expect(embedder).toHaveBeenCalledWith('question: What is the capital of France?');
+    expect(demos).toHaveLength(1);
+    expect(demos[0].input.question).toContain('capital');
+    await client.cleanup();
+  });
+
+  it('should need labeled training examples', async () => {
+    const optimizer = new KNNFewShot<{ question: string }, { answer: string }>(exactMatch());
+
+    await expect(
+      optimizer.compile(createModule(createLM()), [{ input: { question: 'Why?' } }])
+    ).rejects.toThrow('KNNFewShot needs labeled training examples');
+  });
+});
+
+describe('hashingEmbedder', () => {
+  it('should embed texts with shared words closer together', () => {
+    const embed = hashingEmbedder(64);
+    const dot = (a: number[], b: number[]): number => a.reduce((sum, value, i) => sum + value * b[i], 0);
+    const capital = embed('the capital of France') as number[];
+
+    expect(capital).toHaveLength(64);
+    expect(dot(capital, capital)).toBeCloseTo(1);
+    expect(dot(capital, embed('the capital of Peru') as number[]))
+      .toBeGreaterThan(dot(capital, embed('green grass grows') as number[]));
+    expect(embed('')).toEqual(new Array(64).fill(0));
+  });
+});
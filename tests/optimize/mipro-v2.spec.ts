@@ -0,0 +1,115 @@
+import { MIPROv2 } from '../../src/optimize/mipro-v2';
+import { PredictModule } from '../../src/modules/predict';
+import { parseSignature } from '../../src/core/signature';
+import { LMDriver } from '../../src/lm/base';
+import { exactMatch } from '../../src/evaluate/metrics';
+import { ChatLM, answerCapital, capitals } from '../helpers/chat-lm';
+
+/**
+ * Prompt model that proposes a capitals instruction, and answers questions correctly
+ * only when told the task is about capitals
+ */
+const createLM = (): ChatLM =>
+  new ChatLM(messages => {
+    const system = messages[0].content;
+    if (system.includes('Summarize the traits')) {
+      return '[[ ## summary ## ]]\nCountries paired with their capital cities.';
+    }
+    if (system.includes('Write an instruction')) {
+      return '[[ ## instruction ## ]]\nName the capital city of the country.';
+    }
+    return answerCapital(messages);
+  });
+
+describe('MIPROv2', () => {
+  const trainset = Object.entries(capitals).map(([question, answer]) => ({
+    input: { question },
+    output: { answer }
+  }));
+
+  const createModule = (): PredictModule<{ question: string }, { answer: string }> =>
+    new PredictModule({ name: 'Capitals', signature: parseSignature('question -> answer') });
+
+  it('should pick a proposed instruction that improves the score', async () => {
+    const lm = createLM();
+    const module = createModule();
+    module.set({ lm });
+    const optimizer = new MIPROv2<{ question: string }, { answer: string }>(exactMatch(), {
+      numCandidates: 3,
+      numTrials: 8,
+      minibatchSize: 2,
+      promptModel: lm
+    });
+
+    const optimized = await optimizer.compile(module, trainset);
+
+    expect(optimized.signature.instructions).toBe('Name the capital city of the country.');
+    expect(await optimized.run({ question: 'Peru' })).toEqual({ answer: 'Lima' });
+    expect(module.signature.instructions).toBeUndefined();
+
+    const trials = optimizer.getTrials();
+    expect(trials.filter(t => !t.fullEval)).toHaveLength(8);
+    expect(trials[0].choices.self).toEqual({ instruction: 0, demos: 0 });
+    expect(Math.max(...trials.filter(t => t.fullEval).map(t => t.score))).toBe(1);
+  });
+
+  it('should be reproducible for a seed', async () => {
+    const run = async (): Promise<string> => {
+      const lm = createLM();
+      const module = createModule();
+      module.set({ lm });
+      const optimizer = new MIPROv2<{ question: string }, { answer: string }>(exactMatch(), {
+        numCandidates: 3,
+        numTrials: 6,
+        minibatchSize: 2,
+        seed: 7,
+        promptModel: lm
+      });
+      await optimizer.compile(module, trainset);
+      return JSON.stringify(optimizer.getTrials());
+    };
+
+    expect(await run()).toBe(await run());
+  });
+
+  it('should not propose instructions for a template-based predictor', async () => {
+    const lm = createLM();
+    const module = new PredictModule<{ question: string }, { answer: string }>({
+      name: 'Capitals',
+      signature: parseSignature('question -> answer'),
+      promptTemplate: ({ question }) => `[[ ## question ## ]]\n${question}`
+    });
+    module.set({ lm });
+    const optimizer = new MIPROv2<{ question: string }, { answer: string }>(exactMatch(), {
+      numCandidates: 3,
+      numTrials: 4,
+      minibatchSize: 2,
+      promptModel: lm
+    });
+
+    const optimized = await optimizer.compile(module, trainset);
+
+    expect(optimized.signature.instructions).toBeUndefined();
+    expect(optimizer.getTrials().every(trial => trial.choices.self.instruction === 0)).toBe(true);
+  });
+
+  it('should reject fewer than one trial or final candidate', () => {
+    expect(() => new MIPROv2(exactMatch(), { numTrials: 0 })).toThrow('MIPROv2 numTrials must be at least 1');
+    expect(() => new MIPROv2(exactMatch(), { numFinalCandidates: 0 }))
+      .toThrow('MIPROv2 numFinalCandidates must be at least 1');
+  });
+
+  it('should keep the current instruction when proposals fail', async () => {
+    const lm: LMDriver = { generate: async () => 'not a structured answer' };
+    const module = createModule();
+    module.set({ lm });
+    const optimizer = new MIPROv2<{ question: string }, { answer: string }>(exactMatch(), {
+      numCandidates: 2,
+      numTrials: 2,
+      promptModel: lm
+    });
+
+    const optimized = await optimizer.compile(module, trainset);
+    expect(optimized.signature.instructions).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { BootstrapFewShotWithRandomSearch } from '../../src/optimize/random-search';
+import { Module } from '../../src/core/module';
+import { parseSignature } from '../../src/core/signature';
+import { exactMatch } from '../../src/evaluate/metrics';
+
+/**
+ * Answers correctly only for questions it has a demo for
+ */
+class Recall extends Module<{ question: string }, { answer: string }> {
+  constructor() {
+    super({ name: 'Recall', signature: parseSignature('question -> answer'), strategy: 'Predict' });
+  }
+
+  async run({ question }: { question: string }): Promise<{ answer: string }> {
+    const demo = this.demos.find(d => d.input.question === question);
+    return { answer: demo ? demo.output.answer : question.toUpperCase() };
+  }
+}
+
+describe('BootstrapFewShotWithRandomSearch', () => {
+  const trainset = [
+    { input: { question: 'a' }, output: { answer: 'A' } },
+    { input: { question: 'b' }, output: { answer: 'beta' } },
+    { input: { question: 'c' }, output: { answer: 'C' } },
+    { input: { question: 'd' } },
+    { input: { question: 'e' } }
+  ];
+  const valset = [
+    { input: { question: 'b' }, output: { answer: 'beta' } },
+    { input: { question: 'c' }, output: { answer: 'C' } }
+  ];
+
+  it('should return the best candidate and rank all candidates', async () => {
+    const optimizer = new BootstrapFewShotWithRandomSearch<{ question: string }, { answer: string }>(exactMatch(), {
+      numCandidatePrograms: 4,
+      maxLabeledDemos: 2,
+      minScore: 0
+    });
+
+    const best = await optimizer.compile(new Recall(), trainset, valset);
+    const leaderboard = optimizer.getLeaderboard();
+
+    expect(leaderboard).toHaveLength(4);
+    expect(leaderboard.map(c => c.score)).toEqual([...leaderboard.map(c => c.score)].sort((a, b) => b - a));
+    expect(leaderboard.find(c => c.candidate === 0)).toMatchObject({ strategy: 'zero-shot', numDemos: 0, score: 0.5 });
+    expect(leaderboard.find(c => c.candidate === 1)).toMatchObject({ strategy: 'labeled', numDemos: 2, score: 1 });
+    expect(leaderboard[0].score).toBe(1);
+    expect(await best.run({ question: 'b' })).toEqual({ answer: 'beta' });
+    expect(optimizer.getTopPrograms(2)).toHaveLength(2);
+    expect(optimizer.getTopPrograms(1)[0]).toBe(best);
+  });
+
+  it('should hold out labeled examples for validation when no valset is given', async () => {
+    const optimizer = new BootstrapFewShotWithRandomSearch<{ question: string }, { answer: string }>(exactMatch(), {
+      numCandidatePrograms: 2,
+      valRatio: 0.5
+    });
+
+    await optimizer.compile(new Recall(), trainset);
+    const labeled = optimizer.getLeaderboard().find(c => c.strategy === 'labeled');
+
+    expect(labeled?.numDemos).toBe(1);
+  });
+
+  it('should not bootstrap demos when maxBootstrappedDemos is 0', async () => {
+    const optimizer = new BootstrapFewShotWithRandomSearch<{ question: string }, { answer: string }>(exactMatch(), {
+      numCandidatePrograms: 4,
+      maxLabeledDemos: 0,
+      maxBootstrappedDemos: 0,
+      minScore: 0
+    });
+
+    await optimizer.compile(new Recall(), trainset, valset);
+
+    expect(optimizer.getLeaderboard().map(c => c.numDemos)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should reject fewer than one candidate program', () => {
+    expect(() => new BootstrapFewShotWithRandomSearch(exactMatch(), { numCandidatePrograms: 0 }))
+      .toThrow('numCandidatePrograms must be at least 1');
+  });
+
+  it('should reject an empty valset', async () => {
+    const optimizer = new BootstrapFewShotWithRandomSearch<{ question: string }, { answer: string }>(exactMatch());
+
+    await expect(optimizer.compile(new Recall(), trainset, [])).rejects.toThrow('needs a non-empty valset');
+  });
+
+  it('should produce the same leaderboard for the same seed', async () => {
+    const run = async (): Promise<string> => {
+      const optimizer = new BootstrapFewShotWithRandomSearch<{ question: string }, { answer: string }>(exactMatch(), {
+        numCandidatePrograms: 5,
+        seed: 3,
+        minScore: 0
+      });
+      await optimizer.compile(new Recall(), trainset, valset);
+      return JSON.stringify(optimizer.getLeaderboard());
+    };
+
+    expect(await run()).toBe(await run());
+  });
+});
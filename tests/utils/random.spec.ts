@@ -0,0 +1,14 @@
+import { SeededRandom } from '../../src/utils/random';
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    const sequence = [a.next(), a.next(), a.int(10)];
+
+    expect([b.next(), b.next(), b.int(10)]).toEqual(sequence);
+    expect(sequence[0]).toBeGreaterThanOrEqual(0);
+    expect(sequence[0]).toBeLessThan(1);
+    expect(new SeededRandom(1).shuffle([1, 2, 3, 4]).sort()).toEqual([1, 2, 3, 4]);
+  });
+});